@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "SecretStatus" AS ENUM ('ACTIVE', 'ROLLING', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "EndpointSecret" (
+    "id" TEXT NOT NULL,
+    "endpointId" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "status" "SecretStatus" NOT NULL DEFAULT 'ACTIVE',
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EndpointSecret_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EndpointSecret_endpointId_idx" ON "EndpointSecret"("endpointId");
+
+-- AddForeignKey
+ALTER TABLE "EndpointSecret" ADD CONSTRAINT "EndpointSecret_endpointId_fkey" FOREIGN KEY ("endpointId") REFERENCES "Endpoint"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move existing single secrets over as the ACTIVE secret
+INSERT INTO "EndpointSecret" ("id", "endpointId", "secret", "status")
+SELECT gen_random_uuid()::text, "id", "secret", 'ACTIVE' FROM "Endpoint" WHERE "secret" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Endpoint" DROP COLUMN "secret";
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "RejectionReason" AS ENUM ('INVALID_SIGNATURE', 'STALE_TIMESTAMP', 'NO_ACTIVE_SECRET', 'ENDPOINT_INACTIVE', 'BODY_TOO_LARGE');
+
+-- CreateTable
+CREATE TABLE "QuarantinedRequest" (
+    "id" TEXT NOT NULL,
+    "endpointId" TEXT NOT NULL,
+    "headers" JSONB NOT NULL,
+    "rawBody" TEXT NOT NULL,
+    "sourceIp" TEXT,
+    "url" TEXT,
+    "reason" "RejectionReason" NOT NULL,
+    "detail" TEXT,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "promotedEventId" TEXT,
+    "promotedAt" TIMESTAMP(3),
+
+    CONSTRAINT "QuarantinedRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuarantinedRequest_endpointId_receivedAt_idx" ON "QuarantinedRequest"("endpointId", "receivedAt");
+
+-- AddForeignKey
+ALTER TABLE "QuarantinedRequest" ADD CONSTRAINT "QuarantinedRequest_endpointId_fkey" FOREIGN KEY ("endpointId") REFERENCES "Endpoint"("id") ON DELETE CASCADE ON UPDATE CASCADE;
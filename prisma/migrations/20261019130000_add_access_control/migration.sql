@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Endpoint" ADD COLUMN     "accessControl" JSONB,
+ADD COLUMN     "blockedCount" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Endpoint" ADD COLUMN     "dedupConfig" JSONB;
+
+-- AlterTable
+ALTER TABLE "WebhookEvent" ADD COLUMN     "dedupKey" TEXT,
+ADD COLUMN     "duplicateCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebhookEvent_endpointId_dedupKey_key" ON "WebhookEvent"("endpointId", "dedupKey");
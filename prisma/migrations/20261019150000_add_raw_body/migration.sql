@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "WebhookEvent" ALTER COLUMN "payload" DROP NOT NULL,
+ADD COLUMN     "rawBody" BYTEA,
+ADD COLUMN     "contentType" TEXT;
+
+-- AlterTable (keep already-quarantined bodies)
+ALTER TABLE "QuarantinedRequest" ALTER COLUMN "rawBody" TYPE BYTEA USING convert_to("rawBody", 'UTF8');
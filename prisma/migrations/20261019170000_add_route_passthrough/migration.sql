@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Endpoint" ADD COLUMN     "preserveRoute" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "WebhookEvent" ADD COLUMN     "method" TEXT NOT NULL DEFAULT 'POST',
+ADD COLUMN     "subPath" TEXT,
+ADD COLUMN     "queryString" TEXT;
+
+-- AlterTable
+ALTER TABLE "QuarantinedRequest" ADD COLUMN     "method" TEXT NOT NULL DEFAULT 'POST';
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Endpoint" ADD COLUMN     "signingSecret" TEXT,
+ADD COLUMN     "signingConfig" JSONB,
+ADD COLUMN     "previousSigningSecret" TEXT,
+ADD COLUMN     "previousSigningSecretExpiresAt" TIMESTAMP(3);
+
+-- Give existing endpoints a secret (32 random bytes from two v4 UUIDs, base64, "whsec_" prefix)
+UPDATE "Endpoint"
+SET "signingSecret" = 'whsec_' || encode(decode(replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''), 'hex'), 'base64');
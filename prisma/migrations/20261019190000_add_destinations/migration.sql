@@ -0,0 +1,68 @@
+-- CreateTable
+CREATE TABLE "Destination" (
+    "id" TEXT NOT NULL,
+    "endpointId" TEXT NOT NULL,
+    "name" TEXT,
+    "url" TEXT NOT NULL,
+    "rateLimit" INTEGER NOT NULL DEFAULT 5,
+    "isPaused" BOOLEAN NOT NULL DEFAULT false,
+    "retryPolicy" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Destination_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Delivery" (
+    "id" TEXT NOT NULL,
+    "webhookEventId" TEXT NOT NULL,
+    "destinationId" TEXT NOT NULL,
+    "status" "Status" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Delivery_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "DeliveryAttempt" ADD COLUMN     "deliveryId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Destination_endpointId_idx" ON "Destination"("endpointId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Delivery_webhookEventId_destinationId_key" ON "Delivery"("webhookEventId", "destinationId");
+
+-- CreateIndex
+CREATE INDEX "Delivery_destinationId_status_idx" ON "Delivery"("destinationId", "status");
+
+-- AddForeignKey
+ALTER TABLE "Destination" ADD CONSTRAINT "Destination_endpointId_fkey" FOREIGN KEY ("endpointId") REFERENCES "Endpoint"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Delivery" ADD CONSTRAINT "Delivery_webhookEventId_fkey" FOREIGN KEY ("webhookEventId") REFERENCES "WebhookEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Delivery" ADD CONSTRAINT "Delivery_destinationId_fkey" FOREIGN KEY ("destinationId") REFERENCES "Destination"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DeliveryAttempt" ADD CONSTRAINT "DeliveryAttempt_deliveryId_fkey" FOREIGN KEY ("deliveryId") REFERENCES "Delivery"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move each endpoint's targetUrl / rateLimit into its first destination
+INSERT INTO "Destination" ("id", "endpointId", "url", "rateLimit")
+SELECT gen_random_uuid(), "id", "targetUrl", "rateLimit" FROM "Endpoint";
+
+-- Existing events get one delivery (same status) to that destination, and keep their attempts
+INSERT INTO "Delivery" ("id", "webhookEventId", "destinationId", "status", "createdAt", "updatedAt")
+SELECT gen_random_uuid(), e."id", d."id", e."status", e."receivedAt", CURRENT_TIMESTAMP
+FROM "WebhookEvent" e
+JOIN "Destination" d ON d."endpointId" = e."endpointId";
+
+UPDATE "DeliveryAttempt" a
+SET "deliveryId" = dl."id"
+FROM "Delivery" dl
+WHERE dl."webhookEventId" = a."webhookEventId";
+
+-- AlterTable
+ALTER TABLE "Endpoint" DROP COLUMN "targetUrl",
+DROP COLUMN "rateLimit";
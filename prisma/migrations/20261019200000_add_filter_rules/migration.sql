@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "Status" ADD VALUE 'FILTERED';
+
+-- AlterTable
+ALTER TABLE "Endpoint" ADD COLUMN     "filterRules" JSONB;
+
+-- AlterTable
+ALTER TABLE "Destination" ADD COLUMN     "filterRules" JSONB;
+
+-- AlterTable
+ALTER TABLE "WebhookEvent" ADD COLUMN     "eventType" TEXT;
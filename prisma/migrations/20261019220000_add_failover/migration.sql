@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Destination" ADD COLUMN     "fallbackUrls" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "failoverPolicy" JSONB,
+ADD COLUMN     "activeUrlIndex" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "failingSince" TIMESTAMP(3),
+ADD COLUMN     "failedOverAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "DeliveryAttempt" ADD COLUMN     "url" TEXT;
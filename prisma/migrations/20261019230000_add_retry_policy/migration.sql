@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Endpoint" ADD COLUMN     "retryPolicy" JSONB;
+
+-- AlterTable
+ALTER TABLE "WebhookEvent" ADD COLUMN     "nextRetryAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Delivery" ADD COLUMN     "nextRetryAt" TIMESTAMP(3);
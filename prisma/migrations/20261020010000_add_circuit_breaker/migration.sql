@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "BreakerState" AS ENUM ('CLOSED', 'OPEN', 'HALF_OPEN');
+
+-- AlterTable
+ALTER TABLE "Endpoint" ADD COLUMN     "circuitBreaker" JSONB;
+
+-- AlterTable
+ALTER TABLE "Destination" ADD COLUMN     "breakerState" "BreakerState" NOT NULL DEFAULT 'CLOSED',
+ADD COLUMN     "breakerOpenedAt" TIMESTAMP(3),
+ADD COLUMN     "breakerProbeAt" TIMESTAMP(3);
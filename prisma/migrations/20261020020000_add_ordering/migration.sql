@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "Status" ADD VALUE 'BLOCKED';
+ALTER TYPE "Status" ADD VALUE 'SKIPPED';
+
+-- AlterTable
+ALTER TABLE "Endpoint" ADD COLUMN     "ordering" JSONB;
+
+-- AlterTable
+ALTER TABLE "Delivery" ADD COLUMN     "orderingKey" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Delivery_destinationId_orderingKey_status_idx" ON "Delivery"("destinationId", "orderingKey", "status");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Endpoint" ADD COLUMN     "maintenanceResumedAt" TIMESTAMP(3),
+ADD COLUMN     "maintenanceWindows" JSONB;
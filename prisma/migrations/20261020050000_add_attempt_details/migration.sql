@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "AttemptErrorClass" AS ENUM ('DNS', 'CONNECTION_REFUSED', 'TLS', 'TIMEOUT', 'NETWORK', 'HTTP', 'TRANSFORM');
+
+-- AlterTable
+ALTER TABLE "DeliveryAttempt" ADD COLUMN     "durationMs" INTEGER,
+ADD COLUMN     "errorClass" "AttemptErrorClass",
+ADD COLUMN     "errorCode" TEXT,
+ADD COLUMN     "errorMessage" TEXT,
+ADD COLUMN     "requestHeaders" JSONB,
+ADD COLUMN     "responseHeaders" JSONB,
+ADD COLUMN     "responseSize" INTEGER;
@@ -0,0 +1,19 @@
+-- AlterEnum
+ALTER TYPE "Status" RENAME VALUE 'PENDING' TO 'QUEUED';
+ALTER TYPE "Status" ADD VALUE 'RETRY_SCHEDULED';
+
+-- AlterTable
+ALTER TABLE "WebhookEvent" RENAME COLUMN "nextRetryAt" TO "nextAttemptAt";
+ALTER TABLE "WebhookEvent" ALTER COLUMN "status" SET DEFAULT 'QUEUED',
+ADD COLUMN     "attemptCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "completedAt" TIMESTAMP(3),
+ADD COLUMN     "lastAttemptAt" TIMESTAMP(3),
+ADD COLUMN     "lastError" TEXT;
+
+-- AlterTable
+ALTER TABLE "Delivery" RENAME COLUMN "nextRetryAt" TO "nextAttemptAt";
+ALTER TABLE "Delivery" ALTER COLUMN "status" SET DEFAULT 'QUEUED',
+ADD COLUMN     "attemptCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "completedAt" TIMESTAMP(3),
+ADD COLUMN     "lastAttemptAt" TIMESTAMP(3),
+ADD COLUMN     "lastError" TEXT;
@@ -0,0 +1,23 @@
+-- Separate migration: RETRY_SCHEDULED can't be used in the transaction that adds it
+
+-- Deliveries waiting for a retry
+UPDATE "Delivery" SET "status" = 'RETRY_SCHEDULED' WHERE "status" = 'QUEUED' AND "nextAttemptAt" IS NOT NULL;
+UPDATE "WebhookEvent" SET "status" = 'RETRY_SCHEDULED' WHERE "status" = 'QUEUED' AND "nextAttemptAt" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "Delivery" d WHERE d."webhookEventId" = "WebhookEvent"."id" AND d."status" = 'QUEUED');
+
+-- Counters from the attempt log
+UPDATE "Delivery" d SET
+  "attemptCount" = a."count",
+  "lastAttemptAt" = a."last"
+FROM (SELECT "deliveryId", COUNT(*) AS "count", MAX("attemptedAt") AS "last" FROM "DeliveryAttempt" GROUP BY "deliveryId") a
+WHERE a."deliveryId" = d."id";
+
+UPDATE "WebhookEvent" e SET
+  "attemptCount" = a."count",
+  "lastAttemptAt" = a."last"
+FROM (SELECT "webhookEventId", COUNT(*) AS "count", MAX("attemptedAt") AS "last" FROM "DeliveryAttempt" GROUP BY "webhookEventId") a
+WHERE a."webhookEventId" = e."id";
+
+-- Best guess for when finished ones completed: their last attempt
+UPDATE "Delivery" SET "completedAt" = "lastAttemptAt" WHERE "status" = 'COMPLETED';
+UPDATE "WebhookEvent" SET "completedAt" = "lastAttemptAt" WHERE "status" = 'COMPLETED';
@@ -16,7 +16,9 @@ async function main() {
       userId: user.id,
       name: 'Stripe Prod',
       provider: 'generic', // Skips signature check for testing
-      targetUrl: 'https://webhook.site/dsdsdsfsf', // Replace with a real testing URL
+      destinations: {
+        create: { url: 'https://webhook.site/dsdsdsfsf' } // Replace with a real testing URL
+      },
       isActive: true
     }
   });
@@ -0,0 +1,190 @@
+// src/api/destinations.ts
+import { FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from './middleware';
+import { DeliveryService } from '../core/services/DeliveryService';
+import { MaintenanceService } from '../core/services/MaintenanceService';
+import { validateRetryPolicy } from '../utils/retryPolicy';
+import { jsonInput } from '../utils/jsonInput';
+import { validateFilterRules } from '../utils/filterRules';
+import { validateFailoverPolicy, validateFallbackUrls } from '../utils/failover';
+import { ConcurrencyConfig, validateConcurrencyConfig } from '../utils/concurrency';
+import { ConcurrencyService } from '../core/services/ConcurrencyService';
+
+// Destination.rateLimit (requests per second) is a Postgres int
+const MAX_RATE_LIMIT = 2147483647;
+
+// Returns an error message, or null when the destination is usable (`partial` for updates)
+export function validateDestination(data: any, partial = false): string | null {
+  if (!data || typeof data !== 'object') return 'Destination must be an object';
+  if (!partial || data.url !== undefined) {
+    if (!data.url || typeof data.url !== 'string') return 'Destination url is required';
+    try {
+      const { protocol } = new URL(data.url);
+      if (protocol !== 'http:' && protocol !== 'https:') return 'Destination url must be http(s)';
+    } catch (e) {
+      return `Invalid destination url: ${data.url}`;
+    }
+  }
+  if (data.rateLimit !== undefined) {
+    const rateLimit = Number(data.rateLimit);
+    if (!Number.isInteger(rateLimit) || rateLimit < 1 || rateLimit > MAX_RATE_LIMIT) {
+      return 'rateLimit must be a positive integer';
+    }
+  }
+  return validateRetryPolicy(data.retryPolicy)
+    || validateFilterRules(data.filterRules)
+    || validateFallbackUrls(data.fallbackUrls, data.url)
+    || validateFailoverPolicy(data.failoverPolicy)
+    || validateConcurrencyConfig(data.concurrency);
+}
+
+// Fields accepted from the API for create/update
+export const destinationData = (data: any) => ({
+  name: data.name,
+  url: data.url,
+  rateLimit: data.rateLimit !== undefined ? Number(data.rateLimit) : undefined,
+  concurrency: jsonInput(data.concurrency),
+  retryPolicy: jsonInput(data.retryPolicy),
+  filterRules: jsonInput(data.filterRules),
+  fallbackUrls: data.fallbackUrls === null ? [] : data.fallbackUrls, // String[], not Json: null means none
+  failoverPolicy: jsonInput(data.failoverPolicy),
+  // New URLs: start over on the primary
+  ...(data.url !== undefined || data.fallbackUrls !== undefined
+    ? { activeUrlIndex: 0, consecutiveFailures: 0, failingSince: null }
+    : {})
+});
+
+/**
+ * Fan-out targets of an endpoint. Every inbound event gets one Delivery per destination.
+ *   GET    /endpoints/:id/destinations
+ *   POST   /endpoints/:id/destinations
+ *   PUT    /endpoints/:id/destinations/:destinationId
+ *   DELETE /endpoints/:id/destinations/:destinationId
+ *   POST   /endpoints/:id/destinations/:destinationId/toggle-pause
+ */
+export async function destinationRoutes(
+  fastify: FastifyInstance,
+  opts: { prisma: PrismaClient; deliveryService: DeliveryService; concurrencyService: ConcurrencyService }
+) {
+  const { prisma, deliveryService, concurrencyService } = opts;
+
+  const findOwnedEndpoint = (id: string, userId: string) =>
+    prisma.endpoint.findFirst({ where: { id, userId } });
+
+  const findDestination = (id: string, endpointId: string) =>
+    prisma.destination.findFirst({ where: { id, endpointId } });
+
+  // GET /endpoints/:id/destinations - With per-destination delivery counts and current in-flight limit
+  fastify.get('/endpoints/:id/destinations', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id } = request.params as any;
+
+    const endpoint = await findOwnedEndpoint(id, request.user.userId);
+    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+    const [destinations, counts] = await Promise.all([
+      prisma.destination.findMany({ where: { endpointId: id }, orderBy: { createdAt: 'asc' } }),
+      prisma.delivery.groupBy({
+        by: ['destinationId', 'status'],
+        where: { destination: { endpointId: id } },
+        _count: { id: true }
+      })
+    ]);
+
+    return Promise.all(destinations.map(async d => ({
+      ...d,
+      deliveries: Object.fromEntries(
+        counts.filter(c => c.destinationId === d.id).map(c => [c.status, c._count.id])
+      ),
+      effectiveConcurrency: await concurrencyService.snapshot(d.id, d.concurrency as ConcurrencyConfig | null)
+    })));
+  });
+
+  // POST /endpoints/:id/destinations - Receives events ingested from now on
+  fastify.post('/endpoints/:id/destinations', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id } = request.params as any;
+    const data = (request.body as any) || {};
+
+    const validationError = validateDestination(data);
+    if (validationError) return reply.status(400).send({ error: validationError });
+
+    const endpoint = await findOwnedEndpoint(id, request.user.userId);
+    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+    return prisma.destination.create({
+      data: { ...destinationData(data), endpointId: id }
+    });
+  });
+
+  // PUT /endpoints/:id/destinations/:destinationId
+  fastify.put('/endpoints/:id/destinations/:destinationId', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id, destinationId } = request.params as any;
+    const data = (request.body as any) || {};
+
+    const validationError = validateDestination(data, true);
+    if (validationError) return reply.status(400).send({ error: validationError });
+
+    const endpoint = await findOwnedEndpoint(id, request.user.userId);
+    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+    const destination = await findDestination(destinationId, id);
+    if (!destination) return reply.status(404).send({ error: 'Destination not found' });
+
+    return prisma.destination.update({
+      where: { id: destinationId },
+      data: destinationData(data)
+    });
+  });
+
+  // DELETE /endpoints/:id/destinations/:destinationId - Also drops its deliveries and attempts
+  fastify.delete('/endpoints/:id/destinations/:destinationId', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id, destinationId } = request.params as any;
+
+    const endpoint = await findOwnedEndpoint(id, request.user.userId);
+    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+    const destination = await findDestination(destinationId, id);
+    if (!destination) return reply.status(404).send({ error: 'Destination not found' });
+
+    const remaining = await prisma.destination.count({ where: { endpointId: id } });
+    if (remaining <= 1) {
+      return reply.status(400).send({ error: 'An endpoint needs at least one destination. Delete the endpoint instead.' });
+    }
+
+    // Events waiting only on this destination are settled by the remaining ones
+    const affected = await prisma.delivery.findMany({
+      where: { destinationId, status: { not: 'COMPLETED' } },
+      select: { webhookEventId: true }
+    });
+
+    await prisma.destination.delete({ where: { id: destinationId } });
+
+    for (const { webhookEventId } of affected) {
+      await deliveryService.refreshEventStatus(webhookEventId);
+    }
+
+    return { success: true };
+  });
+
+  // POST /endpoints/:id/destinations/:destinationId/toggle-pause - Resuming flushes its buffer
+  fastify.post('/endpoints/:id/destinations/:destinationId/toggle-pause', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id, destinationId } = request.params as any;
+
+    const endpoint = await findOwnedEndpoint(id, request.user.userId);
+    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+    const destination = await findDestination(destinationId, id);
+    if (!destination) return reply.status(404).send({ error: 'Destination not found' });
+
+    const isPaused = !destination.isPaused;
+    await prisma.destination.update({ where: { id: destinationId }, data: { isPaused } });
+
+    // The whole endpoint may still be paused - its own toggle flushes everything.
+    // An open circuit breaker flushes once it closes, a maintenance window once it ends.
+    const flushedDeliveries = !isPaused && !endpoint.isPaused && destination.breakerState === 'CLOSED' && !MaintenanceService.active(endpoint)
+      ? await deliveryService.requeue({ destinationId, status: 'PAUSED' })
+      : 0;
+
+    return { success: true, isPaused, flushedDeliveries };
+  });
+}
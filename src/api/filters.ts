@@ -0,0 +1,67 @@
+// src/api/filters.ts
+import { FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from './middleware';
+import { VerifierFactory } from '../infrastructure/verifiers/VerifierFactory';
+import { FilterRules, matchesFilter, resolveEventType, validateFilterRules } from '../utils/filterRules';
+
+const MAX_DRY_RUN_EVENTS = 500;
+
+export async function filterRoutes(fastify: FastifyInstance, opts: { prisma: PrismaClient }) {
+  const { prisma } = opts;
+
+  // POST /endpoints/:id/filter-test - Dry run: which stored events would a rule let through?
+  // Body: { rules?, destinationId?, limit? } - without `rules`, tests the endpoint's (or destination's) current ones
+  fastify.post('/endpoints/:id/filter-test', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id } = request.params as any;
+    const data = (request.body as any) || {};
+    const limit = Math.min(Number(data.limit) || 50, MAX_DRY_RUN_EVENTS);
+
+    const endpoint = await prisma.endpoint.findFirst({
+      where: { id, userId: request.user.userId },
+      include: { destinations: true }
+    });
+    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+    let rules: FilterRules | null = null;
+    if (data.rules !== undefined) {
+      const validationError = validateFilterRules(data.rules, 'rules');
+      if (validationError) return reply.status(400).send({ error: validationError });
+      rules = data.rules;
+    } else if (data.destinationId) {
+      const destination = endpoint.destinations.find(d => d.id === data.destinationId);
+      if (!destination) return reply.status(404).send({ error: 'Destination not found' });
+      rules = destination.filterRules as FilterRules;
+    } else {
+      rules = endpoint.filterRules as FilterRules;
+    }
+
+    const events = await prisma.webhookEvent.findMany({
+      where: { endpointId: id },
+      select: { id: true, receivedAt: true, status: true, eventType: true, payload: true, headers: true },
+      orderBy: { receivedAt: 'desc' },
+      take: limit
+    });
+
+    // Older events were stored before eventType existed - derive it the same way ingest does
+    const verifier = VerifierFactory.getVerifier(endpoint.provider, endpoint.verifierConfig);
+
+    const results = events.map(event => {
+      const headers = (event.headers as Record<string, any>) || {};
+      const eventType = event.eventType ?? resolveEventType(verifier, event.payload, headers);
+      return {
+        eventId: event.id,
+        receivedAt: event.receivedAt,
+        status: event.status,
+        eventType: eventType ?? null,
+        matched: matchesFilter(rules, { headers, payload: event.payload, eventType })
+      };
+    });
+
+    return {
+      tested: results.length,
+      matched: results.filter(r => r.matched).length,
+      results
+    };
+  });
+}
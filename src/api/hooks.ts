@@ -0,0 +1,156 @@
+// src/api/hooks.ts
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { redisClient } from '../infrastructure/redis/redis';
+import { BlockedRequestCounter } from '../infrastructure/redis/BlockedRequestCounter';
+import { IngestionService } from '../core/services/IngestionService';
+import { IngestionError } from '../core/errors/IngestionError';
+import { HandshakeService } from '../core/services/HandshakeService';
+import { InboundAccessRules, checkInboundAccess, hashAccessRules } from '../utils/inboundAccess';
+import { isSafeSubPath, parseInboundRoute } from '../utils/inboundRoute';
+
+/**
+ * Public ingestion routes.
+ * Must be registered AFTER fastify-raw-body: the plugin attaches its capture through an
+ * onRoute hook, so routes added before it loads never get req.rawBody.
+ */
+export async function hookRoutes(
+  fastify: FastifyInstance,
+  opts: { prisma: PrismaClient; ingestionService: IngestionService; handshakeService: HandshakeService }
+) {
+  const { prisma, ingestionService, handshakeService } = opts;
+  const blockedCounter = new BlockedRequestCounter(prisma, redisClient);
+
+  // ============================================================
+  // ⚡ OPTIMIZATION 1: Cache the Endpoint Lookup (Read)
+  // ============================================================
+  const loadEndpoint = async (endpointId: string) => {
+    const cacheKey = `endpoint:${endpointId}:hooks-config`; // Not ":config" - entries under that name held plaintext credentials
+
+    // 1. Try to get from Redis
+    const endpointConfig = await redisClient.get(cacheKey);
+
+    // HIT: Parse JSON from cache
+    if (endpointConfig) return JSON.parse(endpointConfig);
+
+    // MISS: Fetch from DB
+    const row = await prisma.endpoint.findUnique({
+      where: { id: endpointId },
+      select: { id: true, isPaused: true, provider: true, accessControl: true, handshakeConfig: true }
+    });
+    // Credentials are cached (and checked) as hashes only
+    const endpoint = row && { ...row, accessControl: hashAccessRules(row.accessControl as InboundAccessRules | null) };
+
+    // Save to Redis for 60 seconds (Short TTL ensures Pause button works relatively fast)
+    if (endpoint) await redisClient.set(cacheKey, JSON.stringify(endpoint), 'EX', 60);
+    return endpoint;
+  };
+
+  // Inbound access control (IP allowlist, static credentials). Returns false once it has replied.
+  const enforceAccess = async (endpoint: any, request: FastifyRequest, reply: FastifyReply) => {
+    const access = checkInboundAccess(endpoint.accessControl, request.ip, request.headers);
+    if (access.allowed) return true;
+
+    request.log.warn(`[Security] Blocked request to endpoint ${endpoint.id}: ${access.reason}`);
+    await blockedCounter.record(endpoint.id);
+    if (access.status === 401) {
+      reply.header('WWW-Authenticate', endpoint.accessControl?.basicAuthHash ? 'Basic realm="webhooks"' : 'Bearer');
+    }
+    reply.status(access.status).send({ error: access.reason });
+    return false;
+  };
+
+  // Provider URL-verification challenge? Returns true once it has replied.
+  // Signed ones (Slack, Zoom) are only answered once their signature checks out.
+  const answerHandshake = async (endpoint: any, request: FastifyRequest, reply: FastifyReply) => {
+    const type = HandshakeService.resolveType(endpoint.provider, endpoint.handshakeConfig);
+    const handshakeRequest = {
+      method: request.method,
+      query: (request.query as any) || {},
+      payload: request.body,
+      headers: request.headers,
+      rawBody: request.rawBody || '',
+      url: request.url
+    };
+    if (!HandshakeService.detect(type, handshakeRequest)) return false;
+
+    const result = await handshakeService.respond(endpoint.id, type, endpoint.handshakeConfig, handshakeRequest);
+    request.log.info(`[Handshake] ${type} verification for endpoint ${endpoint.id} -> ${result.status}`);
+    if (result.headers) reply.headers(result.headers);
+    reply.status(result.status).send(result.body);
+    return true;
+  };
+
+  // GET /hooks/:endpointId - Only used by providers that verify the URL with a GET challenge
+  fastify.get('/hooks/:endpointId', async (request, reply) => {
+    const { endpointId } = request.params as any;
+
+    const endpoint = await loadEndpoint(endpointId);
+    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+    if (!(await enforceAccess(endpoint, request, reply))) return reply;
+    if (await answerHandshake(endpoint, request, reply)) return reply;
+
+    return reply.status(405).header('Allow', 'POST').send({ error: 'Webhooks must be delivered with POST' });
+  });
+
+  // POST|PUT|PATCH /hooks/:endpointId[/*] - The "Magic URL"
+  // Method, sub-path and query string are stored so they can be relayed (endpoint.preserveRoute)
+  for (const url of ['/hooks/:endpointId', '/hooks/:endpointId/*']) {
+    fastify.route({
+      method: ['POST', 'PUT', 'PATCH'],
+      url,
+      config: { rawBody: true },
+      // Oversized bodies are rejected by Fastify before the handler runs - quarantine them here
+      errorHandler: async (error, request, reply) => {
+        if (error.code === 'FST_ERR_CTP_BODY_TOO_LARGE') {
+          const { endpointId } = request.params as any;
+          await ingestionService.quarantine(
+            endpointId, request.headers, '', request.ip, request.url,
+            new IngestionError('BODY_TOO_LARGE', error.message), request.method
+          );
+        }
+        return reply.send(error);
+      },
+      handler: async (request, reply) => {
+        const { endpointId } = request.params as any;
+        const payload = request.body;
+        const headers = request.headers;
+
+        if (!isSafeSubPath(parseInboundRoute(request.method, request.url).subPath)) {
+          return reply.status(400).send({ error: 'Invalid sub-path' });
+        }
+
+        const endpoint = await loadEndpoint(endpointId);
+        if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+        if (!(await enforceAccess(endpoint, request, reply))) return reply;
+
+        // Challenges are answered inline and never stored or delivered
+        if (await answerHandshake(endpoint, request, reply)) return reply;
+
+        try {
+          const raw = request.rawBody || '';
+          const result = await ingestionService.ingest(
+            endpointId, payload, headers, endpoint.isPaused, raw, request.url, request.method
+          );
+          // Duplicates still get a 200 so the provider stops resending
+          return reply.status(200).send(result.duplicate ? { received: true, duplicate: true } : { received: true });
+        } catch (error) {
+          request.log.error(error);
+
+          if (error instanceof IngestionError) {
+            if (error.isQuarantinable) {
+              await ingestionService.quarantine(
+                endpointId, headers, request.rawBody || '', request.ip, request.url, error, request.method
+              );
+            }
+            return reply.status(error.statusCode).send({ error: 'Ingestion failed', code: error.code });
+          }
+
+          return reply.status(400).send({ error: 'Ingestion failed' });
+        }
+      }
+    });
+  }
+}
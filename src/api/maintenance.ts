@@ -0,0 +1,52 @@
+// src/api/maintenance.ts
+import { FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from './middleware';
+import { MaintenanceService } from '../core/services/MaintenanceService';
+import { MaintenanceWindow, upcomingMaintenance } from '../utils/maintenance';
+
+const UPCOMING_LIMIT = 10;
+
+/**
+ * Maintenance windows (Endpoint.maintenanceWindows - set via POST/PUT /endpoints).
+ *   GET  /endpoints/:id/maintenance         - Windows, the one in progress and the next occurrences
+ *   POST /endpoints/:id/maintenance/resume  - End the window in progress now and flush the buffer
+ */
+export async function maintenanceRoutes(
+  fastify: FastifyInstance,
+  opts: { prisma: PrismaClient; maintenanceService: MaintenanceService }
+) {
+  const { prisma, maintenanceService } = opts;
+
+  const findOwnedEndpoint = (id: string, userId: string) =>
+    prisma.endpoint.findFirst({
+      where: { id, userId },
+      select: { id: true, isPaused: true, maintenanceWindows: true, maintenanceResumedAt: true }
+    });
+
+  fastify.get('/endpoints/:id/maintenance', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id } = request.params as any;
+
+    const endpoint = await findOwnedEndpoint(id, request.user.userId);
+    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+    return {
+      windows: endpoint.maintenanceWindows || [],
+      active: MaintenanceService.active(endpoint),
+      upcoming: upcomingMaintenance(endpoint.maintenanceWindows as MaintenanceWindow[] | null, new Date(), UPCOMING_LIMIT),
+      resumedAt: endpoint.maintenanceResumedAt
+    };
+  });
+
+  fastify.post('/endpoints/:id/maintenance/resume', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id } = request.params as any;
+
+    const endpoint = await findOwnedEndpoint(id, request.user.userId);
+    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+    const result = await maintenanceService.resume(endpoint);
+    if (!result) return reply.status(409).send({ error: 'No maintenance window in progress' });
+
+    return { success: true, ...result };
+  });
+}
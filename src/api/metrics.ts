@@ -0,0 +1,23 @@
+// src/api/metrics.ts
+import { FastifyInstance } from 'fastify';
+import { authenticate } from './middleware';
+import { FairScheduler, MAX_LAG_MINUTES } from '../infrastructure/queue/FairScheduler';
+
+export async function metricRoutes(
+  fastify: FastifyInstance,
+  opts: { fairScheduler: FairScheduler }
+) {
+  const { fairScheduler } = opts;
+
+  // GET /metrics/queue-lag?minutes=60 - How long your deliveries wait in the shared queue
+  // (enqueue -> first pickup), per minute, and how many are still waiting for a worker
+  fastify.get('/metrics/queue-lag', { preHandler: [authenticate] }, async (request, reply) => {
+    const { minutes = 60 } = request.query as any;
+    const window = Number(minutes);
+    if (!Number.isInteger(window) || window < 1 || window > MAX_LAG_MINUTES) {
+      return reply.status(400).send({ error: `minutes must be an integer between 1 and ${MAX_LAG_MINUTES}` });
+    }
+
+    return fairScheduler.lag(request.user.userId, window);
+  });
+}
@@ -0,0 +1,101 @@
+// src/api/ordering.ts
+import { FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from './middleware';
+import { OrderingService } from '../core/services/OrderingService';
+import { InvalidTransitionError } from '../core/errors/InvalidTransitionError';
+
+const MAX_SEQUENCES = 100;
+
+/**
+ * Ordered delivery (Endpoint.ordering) - inspect and unblock ordering keys.
+ *   GET  /endpoints/:id/ordering?destinationId=&key=  - Sequences with deliveries waiting behind their head
+ *   POST /endpoints/:id/ordering/skip                 - { destinationId, key }: skip the head, send the next one
+ */
+export async function orderingRoutes(
+  fastify: FastifyInstance,
+  opts: { prisma: PrismaClient; orderingService: OrderingService }
+) {
+  const { prisma, orderingService } = opts;
+
+  const findOwnedEndpoint = (id: string, userId: string) =>
+    prisma.endpoint.findFirst({ where: { id, userId }, select: { id: true } });
+
+  fastify.get('/endpoints/:id/ordering', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id } = request.params as any;
+    const { destinationId, key } = request.query as { destinationId?: string; key?: string };
+
+    const endpoint = await findOwnedEndpoint(id, request.user.userId);
+    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+    const waiting = await prisma.delivery.groupBy({
+      by: ['destinationId', 'orderingKey'],
+      where: {
+        status: 'BLOCKED',
+        orderingKey: key !== undefined ? key : { not: null },
+        destination: { endpointId: id, ...(destinationId ? { id: destinationId } : {}) }
+      },
+      _count: { id: true },
+      orderBy: { _count: { id: 'desc' } },
+      take: MAX_SEQUENCES
+    });
+
+    const sequences = await Promise.all(waiting.map(async group => {
+      const sequence = { destinationId: group.destinationId, orderingKey: group.orderingKey! };
+      const head = await orderingService.head(prisma, sequence);
+
+      return {
+        destinationId: group.destinationId,
+        key: group.orderingKey,
+        blocked: group._count.id,
+        // A FAILED head waits for a replay or a skip - nothing moves on its own
+        stuck: head?.status === 'FAILED',
+        head: head && {
+          deliveryId: head.id,
+          eventId: head.webhookEventId,
+          status: head.status,
+          nextAttemptAt: head.nextAttemptAt,
+          updatedAt: head.updatedAt
+        }
+      };
+    }));
+
+    return sequences;
+  });
+
+  fastify.post('/endpoints/:id/ordering/skip', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id } = request.params as any;
+    const data = (request.body as any) || {};
+
+    if (!data.destinationId || typeof data.key !== 'string') {
+      return reply.status(400).send({ error: 'destinationId and key are required' });
+    }
+
+    const endpoint = await findOwnedEndpoint(id, request.user.userId);
+    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+    const destination = await prisma.destination.findFirst({ where: { id: data.destinationId, endpointId: id } });
+    if (!destination) return reply.status(404).send({ error: 'Destination not found' });
+
+    const sequence = { destinationId: destination.id, orderingKey: data.key };
+    let skipped;
+    try {
+      skipped = await orderingService.skipHead(sequence);
+    } catch (err) {
+      // The head is being sent right now - its outcome decides what happens next
+      if (err instanceof InvalidTransitionError) {
+        return reply.status(409).send({ error: err.message, status: err.from });
+      }
+      throw err;
+    }
+    if (!skipped) return reply.status(404).send({ error: 'Nothing is waiting on this key' });
+
+    const next = await orderingService.head(prisma, sequence);
+
+    return {
+      success: true,
+      skipped: { deliveryId: skipped.id, eventId: skipped.webhookEventId },
+      next: next && { deliveryId: next.id, eventId: next.webhookEventId, status: next.status }
+    };
+  });
+}
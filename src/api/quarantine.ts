@@ -0,0 +1,107 @@
+// src/api/quarantine.ts
+import { FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from './middleware';
+import { IngestionService } from '../core/services/IngestionService';
+import { IngestionError } from '../core/errors/IngestionError';
+import { PromotionError } from '../core/errors/PromotionError';
+import { serializeRawBody } from './serializers';
+
+export async function quarantineRoutes(
+  fastify: FastifyInstance,
+  opts: { prisma: PrismaClient; ingestionService: IngestionService }
+) {
+  const { prisma, ingestionService } = opts;
+
+  const findOwnedEntry = (id: string, userId: string) =>
+    prisma.quarantinedRequest.findFirst({ where: { id, endpoint: { userId } } });
+
+  // GET /quarantine - List rejected inbound requests
+  fastify.get('/quarantine', { preHandler: [authenticate] }, async (request, reply) => {
+    const { page = 1, limit = 20, endpointId, reason } = request.query as any;
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const where: any = {
+      endpoint: { userId: request.user.userId } // Security: Only show my requests
+    };
+
+    if (endpointId && endpointId !== 'ALL') where.endpointId = endpointId;
+    if (reason && reason !== 'ALL') where.reason = reason;
+
+    const [total, entries] = await prisma.$transaction([
+      prisma.quarantinedRequest.count({ where }),
+      prisma.quarantinedRequest.findMany({
+        where,
+        // Bodies can be large - fetch them through GET /quarantine/:id
+        select: {
+          id: true,
+          endpointId: true,
+          sourceIp: true,
+          reason: true,
+          detail: true,
+          receivedAt: true,
+          promotedEventId: true,
+          promotedAt: true
+        },
+        orderBy: { receivedAt: 'desc' },
+        skip,
+        take: Number(limit)
+      })
+    ]);
+
+    return {
+      data: entries,
+      meta: {
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages: Math.ceil(total / Number(limit))
+      }
+    };
+  });
+
+  // GET /quarantine/:id - Full request (headers + raw body)
+  fastify.get('/quarantine/:id', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id } = request.params as any;
+
+    const entry = await findOwnedEntry(id, request.user.userId);
+    if (!entry) return reply.status(404).send({ error: 'Quarantined request not found' });
+
+    return serializeRawBody(entry);
+  });
+
+  // POST /quarantine/:id/promote - Turn it into a normal WebhookEvent (once the secret is fixed)
+  fastify.post('/quarantine/:id/promote', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id } = request.params as any;
+    const { force = false } = (request.body as any) || {};
+
+    const entry = await findOwnedEntry(id, request.user.userId);
+    if (!entry) return reply.status(404).send({ error: 'Quarantined request not found' });
+
+    try {
+      const result = await ingestionService.promoteQuarantined(id, Boolean(force));
+      request.log.info(`Promoted quarantined request ${id} to event ${result.eventId}`);
+      return result;
+    } catch (error) {
+      if (error instanceof PromotionError || (error instanceof IngestionError && error.code === 'ENQUEUE_FAILED')) {
+        return reply.status(error.statusCode).send({ error: error.message, code: error.code });
+      }
+      if (error instanceof IngestionError) {
+        return reply.status(400).send({ error: `Still failing verification: ${error.message}`, code: error.code });
+      }
+      throw error; // Database/Redis trouble is ours, not a bad request (500)
+    }
+  });
+
+  // DELETE /quarantine/:id
+  fastify.delete('/quarantine/:id', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id } = request.params as any;
+
+    const entry = await findOwnedEntry(id, request.user.userId);
+    if (!entry) return reply.status(404).send({ error: 'Not found' });
+
+    await prisma.quarantinedRequest.delete({ where: { id } });
+
+    return { success: true };
+  });
+}
@@ -0,0 +1,181 @@
+// src/api/secrets.ts
+import { FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from './middleware';
+import { generateSigningSecret } from '../utils/outboundSignature';
+
+const DEFAULT_GRACE_SECONDS = 24 * 3600; // Old secret keeps verifying for 1 day after a promote
+
+// Only show the tail of a secret in listings
+const mask = (secret: string) => `${'*'.repeat(8)}${secret.slice(-4)}`;
+
+/**
+ * Signing secret rotation:
+ *   1. POST   /endpoints/:id/secrets                     -> add new secret as ROLLING (old + new both verify)
+ *   2. POST   /endpoints/:id/secrets/:secretId/promote   -> new becomes ACTIVE, old becomes ROLLING with an expiry
+ *   3. POST   /endpoints/:id/secrets/:secretId/retire    -> stop accepting a secret right away
+ *
+ * Outbound signing secret (what targets use to verify our deliveries):
+ *   GET    /endpoints/:id/signing-secret          -> reveal it
+ *   POST   /endpoints/:id/signing-secret/rotate   -> new secret; the old one keeps signing during the grace period
+ */
+export async function secretRoutes(fastify: FastifyInstance, opts: { prisma: PrismaClient }) {
+  const { prisma } = opts;
+
+  const findOwnedEndpoint = (id: string, userId: string) =>
+    prisma.endpoint.findFirst({ where: { id, userId } });
+
+  // GET /endpoints/:id/secrets
+  fastify.get('/endpoints/:id/secrets', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id } = request.params as any;
+
+    const endpoint = await findOwnedEndpoint(id, request.user.userId);
+    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+    const secrets = await prisma.endpointSecret.findMany({
+      where: { endpointId: id },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return secrets.map(s => ({ ...s, secret: mask(s.secret) }));
+  });
+
+  // POST /endpoints/:id/secrets - Add a secret alongside the current one
+  fastify.post('/endpoints/:id/secrets', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id } = request.params as any;
+    const data = (request.body as any) || {};
+
+    if (!data.secret || typeof data.secret !== 'string') {
+      return reply.status(400).send({ error: 'Secret is required' });
+    }
+
+    const expiresAt = data.expiresAt ? new Date(data.expiresAt) : null;
+    if (expiresAt && (Number.isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+      return reply.status(400).send({ error: 'expiresAt must be a date-time in the future' });
+    }
+
+    const endpoint = await findOwnedEndpoint(id, request.user.userId);
+    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+    // First secret on an endpoint is ACTIVE straight away, later ones start as ROLLING
+    const activeCount = await prisma.endpointSecret.count({ where: { endpointId: id, status: 'ACTIVE' } });
+
+    const created = await prisma.endpointSecret.create({
+      data: {
+        endpointId: id,
+        secret: data.secret,
+        status: activeCount === 0 ? 'ACTIVE' : 'ROLLING',
+        expiresAt
+      }
+    });
+
+    return { ...created, secret: mask(created.secret) };
+  });
+
+  // POST /endpoints/:id/secrets/:secretId/promote - Make a secret the ACTIVE one
+  fastify.post('/endpoints/:id/secrets/:secretId/promote', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id, secretId } = request.params as any;
+    const data = (request.body as any) || {};
+    const graceSeconds = data.graceSeconds !== undefined ? Number(data.graceSeconds) : DEFAULT_GRACE_SECONDS;
+
+    if (!(graceSeconds >= 0)) {
+      return reply.status(400).send({ error: 'graceSeconds must be a non-negative number' });
+    }
+
+    const endpoint = await findOwnedEndpoint(id, request.user.userId);
+    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+    const target = await prisma.endpointSecret.findFirst({ where: { id: secretId, endpointId: id } });
+    if (!target) return reply.status(404).send({ error: 'Secret not found' });
+    if (target.status === 'EXPIRED') return reply.status(400).send({ error: 'Cannot promote an expired secret' });
+
+    const graceUntil = new Date(Date.now() + graceSeconds * 1000);
+
+    // Demote the current ACTIVE secret(s) to ROLLING so in-flight deliveries still verify
+    await prisma.$transaction([
+      prisma.endpointSecret.updateMany({
+        where: { endpointId: id, status: 'ACTIVE', id: { not: secretId } },
+        data: graceSeconds > 0
+          ? { status: 'ROLLING', expiresAt: graceUntil }
+          : { status: 'EXPIRED', expiresAt: new Date() }
+      }),
+      prisma.endpointSecret.update({
+        where: { id: secretId },
+        data: { status: 'ACTIVE', expiresAt: null }
+      })
+    ]);
+
+    request.log.info(`Promoted secret ${secretId} on endpoint ${id}`);
+
+    return { success: true, previousValidUntil: graceSeconds > 0 ? graceUntil : null };
+  });
+
+  // POST /endpoints/:id/secrets/:secretId/retire - Stop accepting a secret
+  fastify.post('/endpoints/:id/secrets/:secretId/retire', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id, secretId } = request.params as any;
+
+    const endpoint = await findOwnedEndpoint(id, request.user.userId);
+    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+    const target = await prisma.endpointSecret.findFirst({ where: { id: secretId, endpointId: id } });
+    if (!target) return reply.status(404).send({ error: 'Secret not found' });
+
+    if (target.status === 'ACTIVE') {
+      return reply.status(400).send({ error: 'Cannot retire the ACTIVE secret. Promote another secret first.' });
+    }
+
+    await prisma.endpointSecret.update({
+      where: { id: secretId },
+      data: { status: 'EXPIRED', expiresAt: new Date() }
+    });
+
+    return { success: true };
+  });
+
+  // GET /endpoints/:id/signing-secret - Reveal the outbound signing secret
+  fastify.get('/endpoints/:id/signing-secret', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id } = request.params as any;
+
+    const endpoint = await findOwnedEndpoint(id, request.user.userId);
+    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+    const previousActive = !!endpoint.previousSigningSecretExpiresAt && endpoint.previousSigningSecretExpiresAt > new Date();
+
+    return {
+      signingSecret: endpoint.signingSecret,
+      signingConfig: endpoint.signingConfig,
+      previousValidUntil: previousActive ? endpoint.previousSigningSecretExpiresAt : null
+    };
+  });
+
+  // POST /endpoints/:id/signing-secret/rotate - Generate a new outbound signing secret
+  fastify.post('/endpoints/:id/signing-secret/rotate', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id } = request.params as any;
+    const data = (request.body as any) || {};
+    const graceSeconds = data.graceSeconds !== undefined ? Number(data.graceSeconds) : DEFAULT_GRACE_SECONDS;
+
+    if (!(graceSeconds >= 0)) {
+      return reply.status(400).send({ error: 'graceSeconds must be a non-negative number' });
+    }
+
+    const endpoint = await findOwnedEndpoint(id, request.user.userId);
+    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
+
+    // Standard Webhooks deliveries carry both signatures until graceUntil; the hmac format only the new one
+    const graceUntil = new Date(Date.now() + graceSeconds * 1000);
+    const keepPrevious = graceSeconds > 0 && !!endpoint.signingSecret;
+
+    const updated = await prisma.endpoint.update({
+      where: { id },
+      data: {
+        signingSecret: generateSigningSecret(),
+        previousSigningSecret: keepPrevious ? endpoint.signingSecret : null,
+        previousSigningSecretExpiresAt: keepPrevious ? graceUntil : null
+      }
+    });
+
+    request.log.info(`Rotated outbound signing secret on endpoint ${id}`);
+
+    return { signingSecret: updated.signingSecret, previousValidUntil: keepPrevious ? graceUntil : null };
+  });
+}
@@ -0,0 +1,16 @@
+// src/api/serializers.ts
+
+// Bytes columns come back as Buffers, which JSON-serialize as { type, data: [...] }.
+// Expose raw bodies as base64 instead.
+export function serializeRawBody<T extends { rawBody: Buffer | null }>(record: T) {
+  return {
+    ...record,
+    rawBody: record.rawBody ? record.rawBody.toString('base64') : null
+  };
+}
+
+// Outbound signing secrets are only shown by GET /endpoints/:id/signing-secret (and once on create)
+export function hideSigningSecrets<T extends { signingSecret: string | null; previousSigningSecret: string | null }>(endpoint: T) {
+  const { signingSecret, previousSigningSecret, ...rest } = endpoint;
+  return rest;
+}
@@ -6,23 +6,68 @@ import rawBody from 'fastify-raw-body';
 import { CleanupService } from '../jobs/CleanupService';
 import { QueueService } from '../infrastructure/queue/QueueService';
 import { redisClient } from '../infrastructure/redis/redis';
+import { HandshakeService } from '../core/services/HandshakeService';
+import { DeliveryService } from '../core/services/DeliveryService';
 import { IngestionService } from '../core/services/IngestionService';
+import { OrderingService } from '../core/services/OrderingService';
+import { ConcurrencyService } from '../core/services/ConcurrencyService';
+import { MaintenanceService } from '../core/services/MaintenanceService';
+import { FairScheduler } from '../infrastructure/queue/FairScheduler';
 import { authRoutes } from './auth';
+import { secretRoutes } from './secrets';
+import { quarantineRoutes } from './quarantine';
+import { hookRoutes } from './hooks';
+import { destinationData, destinationRoutes, validateDestination } from './destinations';
+import { filterRoutes } from './filters';
+import { transformRoutes } from './transforms';
+import { orderingRoutes } from './ordering';
+import { metricRoutes } from './metrics';
+import { maintenanceRoutes } from './maintenance';
 import { authenticate } from './middleware';
 import { isSafeUrl } from '../utils/urlValidator';
-
-const fastify = Fastify({ logger: true, bodyLimit: 1048576 });
+import { jsonInput } from '../utils/jsonInput';
+import { HmacVerifier } from '../infrastructure/verifiers/HmacVerifier';
+import { VerifierFactory } from '../infrastructure/verifiers/VerifierFactory';
+import { validateAccessRules } from '../utils/inboundAccess';
+import { validateDedupConfig } from '../utils/dedupKey';
+import { generateSigningSecret, validateSigningConfig } from '../utils/outboundSignature';
+import { validateFilterRules } from '../utils/filterRules';
+import { validateTransform } from '../utils/transform';
+import { validateRetryPolicy } from '../utils/retryPolicy';
+import { validateResponseRules } from '../utils/responseRules';
+import { validateCircuitBreakerConfig } from '../utils/circuitBreaker';
+import { validateOrderingConfig } from '../utils/ordering';
+import { MaintenanceWindow, upcomingMaintenance, validateMaintenanceWindows } from '../utils/maintenance';
+import { TransformSandbox } from '../infrastructure/sandbox/TransformSandbox';
+import { hideSigningSecrets, serializeRawBody } from './serializers';
+
+// Proxies allowed to set X-Forwarded-For (comma-separated IPs/CIDRs, or a hop count like "1" on Render).
+// Fastify resolves request.ip from it, which the per-endpoint IP allowlists rely on.
+const trustedProxies = process.env.TRUSTED_PROXIES;
+const trustProxy = trustedProxies
+  ? (/^\d+$/.test(trustedProxies) ? Number(trustedProxies) : trustedProxies)
+  : false;
+
+const fastify = Fastify({ logger: true, bodyLimit: 1048576, trustProxy });
 
 // 1. Initialize Prisma (Standard v5/v6 syntax)
 const prisma = new PrismaClient();
 
 // 2. Initialize Queue & Services
 const queue = new QueueService('webhook-queue');
-const ingestionService = new IngestionService(prisma, queue);
+const deliveryService = new DeliveryService(prisma, queue);
+const ingestionService = new IngestionService(prisma, deliveryService, redisClient);
+const handshakeService = new HandshakeService(prisma);
+const orderingService = new OrderingService(prisma, deliveryService);
+const concurrencyService = new ConcurrencyService(redisClient);
+const fairScheduler = new FairScheduler(redisClient);
+const maintenanceService = new MaintenanceService(prisma, redisClient, deliveryService);
+const transformSandbox = new TransformSandbox(); // Preview runs under the same limits as the worker
 
 // 👇 INITIALIZE CLEANUP JOB
 const cleanupService = new CleanupService(prisma);
 cleanupService.startCron();
+maintenanceService.startCron(); // Flushes buffers when maintenance windows close
 
 // 3. Register Plugins
 fastify.register(cors, {
@@ -33,11 +78,30 @@ fastify.register(cors, {
 fastify.register(rawBody, {
   field: 'rawBody', // Attaches the raw buffer to req.rawBody
   global: false,    // Only run for specific routes (performance optimization)
-  encoding: 'utf8',
+  encoding: false,  // Keep a Buffer: bodies are stored and forwarded byte-for-byte
   runFirst: true,
 });
 
+// Form-encoded webhooks (Twilio, Slack slash commands) - parsed into a flat object
+fastify.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (req, body, done) => {
+  done(null, Object.fromEntries(new URLSearchParams(body as string)));
+});
+
+// Anything else (XML, binary...) - keep the bytes, there's no parsed view
+fastify.addContentTypeParser('*', { parseAs: 'buffer' }, (req, body, done) => {
+  done(null, body);
+});
+
 fastify.register(authRoutes);
+fastify.register(secretRoutes, { prisma });
+fastify.register(destinationRoutes, { prisma, deliveryService, concurrencyService });
+fastify.register(filterRoutes, { prisma });
+fastify.register(transformRoutes, { prisma, transformSandbox });
+fastify.register(orderingRoutes, { prisma, orderingService });
+fastify.register(metricRoutes, { fairScheduler });
+fastify.register(maintenanceRoutes, { prisma, maintenanceService });
+fastify.register(quarantineRoutes, { prisma, ingestionService });
+fastify.register(hookRoutes, { prisma, ingestionService, handshakeService }); // After rawBody (see hooks.ts)
 
 // =========================================================
 //  SECURED ROUTES (Dashboard & Management)
@@ -50,10 +114,23 @@ fastify.get('/endpoints', { preHandler: [authenticate] }, async (request, reply)
       userId: request.user.userId
     },
     include: {
+      destinations: { orderBy: { createdAt: 'asc' } },
       _count: { select: { events: true } }
     }
   });
-  return endpoints;
+  // Worst circuit breaker state among the destinations (details on each destination),
+  // the maintenance window in progress and the next few (more via /endpoints/:id/maintenance)
+  const now = new Date();
+  return endpoints.map(endpoint => ({
+    ...hideSigningSecrets(endpoint),
+    breakerState: endpoint.destinations.some(d => d.breakerState === 'OPEN') ? 'OPEN'
+      : endpoint.destinations.some(d => d.breakerState === 'HALF_OPEN') ? 'HALF_OPEN'
+      : 'CLOSED',
+    maintenance: {
+      active: MaintenanceService.active(endpoint, now),
+      upcoming: upcomingMaintenance(endpoint.maintenanceWindows as MaintenanceWindow[] | null, now, 3)
+    }
+  }));
 });
 
 // POST /endpoints - Create New Endpoint
@@ -65,20 +142,91 @@ fastify.post('/endpoints', { preHandler: [authenticate] }, async (request, reply
   //   return reply.status(400).send({ error: 'Target URL is not allowed (Private/Local IPs blocked)' });
   // }
 
-  if (!data.name || !data.targetUrl) {
-    return reply.status(400).send({ error: 'Name and Target URL are required' });
+  // Either a single targetUrl (+ rateLimit) or a list of destinations to fan out to
+  const destinations: any[] = Array.isArray(data.destinations) && data.destinations.length > 0
+    ? data.destinations
+    : (data.targetUrl
+      ? [{
+          url: data.targetUrl,
+          rateLimit: data.rateLimit || 5,
+          concurrency: data.concurrency,
+          fallbackUrls: data.fallbackUrls,
+          failoverPolicy: data.failoverPolicy
+        }]
+      : []);
+
+  if (!data.name || destinations.length === 0) {
+    return reply.status(400).send({ error: 'Name and Target URL (or destinations) are required' });
   }
 
+  for (const destination of destinations) {
+    const destinationError = validateDestination(destination);
+    if (destinationError) return reply.status(400).send({ error: destinationError });
+  }
+
+  const provider = VerifierFactory.normalizeProvider(data.provider) || 'generic';
+  if (provider === 'hmac') {
+    const configError = HmacVerifier.validateConfig(data.verifierConfig);
+    if (configError) return reply.status(400).send({ error: configError });
+  }
+
+  const accessError = validateAccessRules(data.accessControl);
+  if (accessError) return reply.status(400).send({ error: accessError });
+
+  const dedupError = validateDedupConfig(data.dedupConfig);
+  if (dedupError) return reply.status(400).send({ error: dedupError });
+
+  const handshakeError = HandshakeService.validateConfig(data.handshakeConfig);
+  if (handshakeError) return reply.status(400).send({ error: handshakeError });
+
+  const signingError = validateSigningConfig(data.signingConfig);
+  if (signingError) return reply.status(400).send({ error: signingError });
+
+  const filterError = validateFilterRules(data.filterRules);
+  if (filterError) return reply.status(400).send({ error: filterError });
+
+  const transformError = validateTransform(data.transform);
+  if (transformError) return reply.status(400).send({ error: transformError });
+
+  const retryError = validateRetryPolicy(data.retryPolicy);
+  if (retryError) return reply.status(400).send({ error: retryError });
+
+  const responseRulesError = validateResponseRules(data.responseRules);
+  if (responseRulesError) return reply.status(400).send({ error: responseRulesError });
+
+  const breakerError = validateCircuitBreakerConfig(data.circuitBreaker);
+  if (breakerError) return reply.status(400).send({ error: breakerError });
+
+  const orderingError = validateOrderingConfig(data.ordering);
+  if (orderingError) return reply.status(400).send({ error: orderingError });
+
+  const maintenanceError = validateMaintenanceWindows(data.maintenanceWindows);
+  if (maintenanceError) return reply.status(400).send({ error: maintenanceError });
+
   try {
     const endpoint = await prisma.endpoint.create({
       data: {
         name: data.name,
-        targetUrl: data.targetUrl,
-        provider: data.provider || 'generic',
-        rateLimit: Number(data.rateLimit) || 5,
-        secret: data.secret,
+        provider,
+        destinations: { create: destinations.map(destinationData) },
+        secrets: data.secret ? { create: { secret: data.secret } } : undefined,
+        verifierConfig: jsonInput(data.verifierConfig),
+        accessControl: jsonInput(data.accessControl),
+        dedupConfig: jsonInput(data.dedupConfig),
+        handshakeConfig: jsonInput(data.handshakeConfig),
+        preserveRoute: data.preserveRoute === undefined ? undefined : Boolean(data.preserveRoute),
+        signingSecret: generateSigningSecret(),
+        signingConfig: jsonInput(data.signingConfig),
+        filterRules: jsonInput(data.filterRules),
+        transform: jsonInput(data.transform),
+        retryPolicy: jsonInput(data.retryPolicy),
+        responseRules: jsonInput(data.responseRules),
+        circuitBreaker: jsonInput(data.circuitBreaker),
+        ordering: jsonInput(data.ordering),
+        maintenanceWindows: jsonInput(data.maintenanceWindows),
         userId: request.user.userId
-      }
+      },
+      include: { destinations: true }
     });
     return endpoint;
   } catch (err) {
@@ -105,11 +253,11 @@ fastify.get('/endpoints/:id/events', { preHandler: [authenticate] }, async (requ
 
   const events = await prisma.webhookEvent.findMany({
     where: { endpointId: id },
-    include: { attempts: true },
+    include: { attempts: { orderBy: { attemptedAt: 'asc' } }, deliveries: true },
     orderBy: { receivedAt: 'desc' },
     take: 50
   });
-  return events;
+  return events.map(serializeRawBody);
 });
 
 // POST /events/:id/replay - The Replay Logic
@@ -130,17 +278,22 @@ fastify.post('/events/:id/replay', { preHandler: [authenticate] }, async (reques
     return reply.status(404).send({ error: 'Event not found or access denied' });
   }
 
-  // Logic: Reset status and push to queue
-  await prisma.webhookEvent.update({
-    where: { id },
-    data: { status: 'PENDING' }
+  // Logic: Reset status and push to queue (every destination, or just the one asked for).
+  // Naming a destination also sends an event its filter rules skipped. Deliveries that are
+  // queued or being sent right now are left alone.
+  const { destinationId } = (request.body as any) || {};
+  const count = await deliveryService.requeue({
+    webhookEventId: id,
+    ...(destinationId ? { destinationId } : { status: { not: 'FILTERED' } })
   });
 
-  await queue.addJob('dispatch-webhook', { eventId: id });
+  if (count === 0) {
+    return reply.status(404).send({ error: 'No delivery to replay for this destination (or it is still in flight)' });
+  }
 
-  request.log.info(`Replaying event ${id}`);
+  request.log.info(`Replaying event ${id} (${count} deliveries)`);
 
-  return { success: true, message: 'Replay queued successfully' };
+  return { success: true, message: 'Replay queued successfully', deliveries: count };
 });
 
 
@@ -153,47 +306,6 @@ fastify.get('/ping', async (request, reply) => {
   return 'pong';
 });
 
-// POST /hooks/:endpointId - The "Magic URL"
-fastify.post('/hooks/:endpointId', { config: { rawBody: true } }, async (request, reply) => {
-  const { endpointId } = request.params as any;
-  const payload = request.body;
-  const headers = request.headers;
-
-  // ============================================================
-  // ⚡ OPTIMIZATION 1: Cache the Endpoint Lookup (Read)
-  // ============================================================
-  const cacheKey = `endpoint:${endpointId}:config`;
-
-  // 1. Try to get from Redis
-  let endpointConfig = await redisClient.get(cacheKey);
-  let endpoint;
-
-  if (endpointConfig) {
-    // HIT: Parse JSON from cache
-    endpoint = JSON.parse(endpointConfig);
-  } else {
-    // MISS: Fetch from DB
-    endpoint = await prisma.endpoint.findUnique({
-      where: { id: endpointId },
-      select: { id: true, isPaused: true }
-    });
-
-    if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
-
-    // Save to Redis for 60 seconds (Short TTL ensures Pause button works relatively fast)
-    await redisClient.set(cacheKey, JSON.stringify(endpoint), 'EX', 60);
-  }
-
-  try {
-    const raw = request.rawBody || '';
-    await ingestionService.ingest(endpointId, payload, headers, endpoint.isPaused, raw);
-    return reply.status(200).send({ received: true });
-  } catch (error) {
-    request.log.error(error);
-    return reply.status(400).send({ error: 'Ingestion failed' });
-  }
-});
-
 // 2. NEW ROUTE: TOGGLE PAUSE (POST /endpoints/:id/toggle-pause)
 fastify.post('/endpoints/:id/toggle-pause', { preHandler: [authenticate] }, async (request, reply) => {
   const { id } = request.params as any;
@@ -211,29 +323,11 @@ fastify.post('/endpoints/:id/toggle-pause', { preHandler: [authenticate] }, asyn
   });
 
   // 2. IF RESUMING (Play clicked): Flush the buffer!
+  // (Destinations paused on their own keep buffering until they're resumed,
+  // open circuit breakers flush theirs once they close, maintenance windows once they end)
   let recoveredCount = 0;
-  if (newPausedState === false) {
-    // Find all 'PAUSED' events
-    const pausedEvents = await prisma.webhookEvent.findMany({
-      where: { endpointId: id, status: 'PAUSED' },
-      select: { id: true }
-    });
-
-    if (pausedEvents.length > 0) {
-      // Update DB to PENDING
-      await prisma.webhookEvent.updateMany({
-        where: { endpointId: id, status: 'PAUSED' },
-        data: { status: 'PENDING' }
-      });
-
-      // Push to Queue
-      const jobs = pausedEvents.map(evt => ({
-        name: 'dispatch-webhook',
-        data: { eventId: evt.id }
-      }));
-      await queue.addJobsBulk(jobs); // Use the bulk method we made earlier
-      recoveredCount = pausedEvents.length;
-    }
+  if (newPausedState === false && !MaintenanceService.active(endpoint)) {
+    recoveredCount = await maintenanceService.flush([id]);
   }
 
   return {
@@ -375,6 +469,11 @@ fastify.get('/stats', { preHandler: [authenticate] }, async (request, reply) =>
   const userId = request.user.userId;
   const now = new Date();
 
+  // ?destinationId= narrows the counts to one fan-out destination (its deliveries instead of events)
+  const { destinationId } = request.query as any;
+  const byDestination = !!destinationId && destinationId !== 'ALL';
+  const deliveryWhere = { destinationId, destination: { endpoint: { userId } } };
+
   // 1. Calculate "Start of Today" (00:00:00)
   const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
 
@@ -395,31 +494,48 @@ fastify.get('/stats', { preHandler: [authenticate] }, async (request, reply) =>
     archivedData        // 👈 NEW: Fetch the historical Deleted counts
   ] = await Promise.all([
     // A. Total LIVE Events
-    prisma.webhookEvent.count({ where: { endpoint: { userId } } }),
+    byDestination
+      ? prisma.delivery.count({ where: deliveryWhere })
+      : prisma.webhookEvent.count({ where: { endpoint: { userId } } }),
 
     // B. Events Today (Count)
-    prisma.webhookEvent.count({
-      where: {
-        endpoint: { userId },
-        receivedAt: { gte: startOfToday }
-      }
-    }),
+    byDestination
+      ? prisma.delivery.count({
+          where: { ...deliveryWhere, webhookEvent: { receivedAt: { gte: startOfToday } } }
+        })
+      : prisma.webhookEvent.count({
+          where: {
+            endpoint: { userId },
+            receivedAt: { gte: startOfToday }
+          }
+        }),
 
     // C. Status Breakdown (For Success Ratio)
-    prisma.webhookEvent.groupBy({
-      by: ['status'],
-      where: { endpoint: { userId } },
-      _count: { id: true }
-    }),
+    byDestination
+      ? prisma.delivery.groupBy({
+          by: ['status'],
+          where: deliveryWhere,
+          _count: { id: true }
+        })
+      : prisma.webhookEvent.groupBy({
+          by: ['status'],
+          where: { endpoint: { userId } },
+          _count: { id: true }
+        }),
 
     // D. Time Series (Last 7 Days)
-    prisma.webhookEvent.findMany({
-      where: {
-        endpoint: { userId },
-        receivedAt: { gte: sevenDaysAgo }
-      },
-      select: { receivedAt: true, status: true }
-    }),
+    byDestination
+      ? prisma.delivery.findMany({
+          where: { ...deliveryWhere, webhookEvent: { receivedAt: { gte: sevenDaysAgo } } },
+          select: { status: true, webhookEvent: { select: { receivedAt: true } } }
+        }).then(rows => rows.map(r => ({ receivedAt: r.webhookEvent.receivedAt, status: r.status })))
+      : prisma.webhookEvent.findMany({
+          where: {
+            endpoint: { userId },
+            receivedAt: { gte: sevenDaysAgo }
+          },
+          select: { receivedAt: true, status: true }
+        }),
 
     // E. Top Endpoints by Volume (Live Data)
     prisma.webhookEvent.groupBy({
@@ -433,7 +549,7 @@ fastify.get('/stats', { preHandler: [authenticate] }, async (request, reply) =>
     // F. 👇 NEW QUERY: Sum of archived events
     prisma.endpoint.aggregate({
       where: { userId },
-      _sum: { archivedSuccessCount: true }
+      _sum: { archivedSuccessCount: true, blockedCount: true }
     })
   ]);
 
@@ -441,12 +557,14 @@ fastify.get('/stats', { preHandler: [authenticate] }, async (request, reply) =>
   // DATA PROCESSING
   // =========================================================
 
-  // 1. Calculate Historical Context
-  const archivedCount = archivedData._sum.archivedSuccessCount || 0;
+  // 1. Calculate Historical Context (archived counts are per endpoint, not per destination)
+  const archivedCount = byDestination ? 0 : (archivedData._sum.archivedSuccessCount || 0);
+  const blockedCount = archivedData._sum.blockedCount || 0; // Rejected by inbound access control
 
   // 2. Calculate Status Counts (Live)
   const liveSuccess = eventsByStatus.find(s => s.status === 'COMPLETED')?._count.id || 0;
   const liveFailed = eventsByStatus.find(s => s.status === 'FAILED')?._count.id || 0;
+  const liveFiltered = eventsByStatus.find(s => s.status === 'FILTERED')?._count.id || 0; // Not in the ratio
 
   // 3. 👇 MERGE: Total = Live Events + Archived Events
   const totalAllTime = liveTotalEvents + archivedCount;
@@ -461,7 +579,9 @@ fastify.get('/stats', { preHandler: [authenticate] }, async (request, reply) =>
     : 0;
 
   // 5. Calculate Pending (Active)
-  const pendingCount = eventsByStatus.find(s => ['PENDING', 'PROCESSING', 'QUEUED'].includes(s.status))?._count.id || 0;
+  const pendingCount = eventsByStatus
+    .filter(s => ['QUEUED', 'PROCESSING', 'RETRY_SCHEDULED'].includes(s.status))
+    .reduce((sum, s) => sum + s._count.id, 0);
 
   // 6. Process Time Series (Group by Date)
   // (We don't add archived data here because graphs usually show recent activity, 
@@ -507,6 +627,8 @@ fastify.get('/stats', { preHandler: [authenticate] }, async (request, reply) =>
       totalToday: eventsToday,
       successRatio: Number(successRatio), // Adjusted for Deleted Events
       activePending: pendingCount,
+      blockedRequests: blockedCount,
+      filteredEvents: liveFiltered,
       // You can also pass the split if you want to show it in UI
       // archivedCount: archivedCount 
     },
@@ -524,6 +646,7 @@ fastify.get('/events', { preHandler: [authenticate] }, async (request, reply) =>
     limit = 20,
     status,
     endpointId,
+    destinationId,
     timeRange // '1h', '24h', '7d'
   } = request.query as any;
 
@@ -536,13 +659,17 @@ fastify.get('/events', { preHandler: [authenticate] }, async (request, reply) =>
   };
 
   if (status && status !== 'ALL') {
-    where.status = status;
+    where.status = status === 'PENDING' ? 'QUEUED' : status; // PENDING was renamed to QUEUED
   }
 
   if (endpointId && endpointId !== 'ALL') {
     where.endpointId = endpointId;
   }
 
+  if (destinationId && destinationId !== 'ALL') {
+    where.deliveries = { some: { destinationId } };
+  }
+
   if (timeRange) {
     const now = new Date();
     let past = new Date();
@@ -562,7 +689,7 @@ fastify.get('/events', { preHandler: [authenticate] }, async (request, reply) =>
     prisma.webhookEvent.count({ where }),
     prisma.webhookEvent.findMany({
       where,
-      include: { endpoint: true, attempts: true },
+      include: { endpoint: true, attempts: { orderBy: { attemptedAt: 'asc' } }, deliveries: { include: { destination: true } } },
       orderBy: { receivedAt: 'desc' },
       skip,
       take: Number(limit)
@@ -570,7 +697,7 @@ fastify.get('/events', { preHandler: [authenticate] }, async (request, reply) =>
   ]);
 
   return {
-    data: events,
+    data: events.map(serializeRawBody),
     meta: {
       total,
       page: Number(page),
@@ -592,18 +719,114 @@ fastify.put('/endpoints/:id', { preHandler: [authenticate] }, async (request, re
 
   if (!existing) return reply.status(404).send({ error: 'Endpoint not found' });
 
-  const updated = await prisma.endpoint.update({
+  // Validate against the resulting provider/config, since either may be omitted
+  const provider = VerifierFactory.normalizeProvider(data.provider);
+  if ((provider ?? VerifierFactory.normalizeProvider(existing.provider)) === 'hmac') {
+    const configError = HmacVerifier.validateConfig(data.verifierConfig !== undefined ? data.verifierConfig : existing.verifierConfig);
+    if (configError) return reply.status(400).send({ error: configError });
+  }
+
+  const accessError = validateAccessRules(data.accessControl);
+  if (accessError) return reply.status(400).send({ error: accessError });
+
+  const dedupError = validateDedupConfig(data.dedupConfig);
+  if (dedupError) return reply.status(400).send({ error: dedupError });
+
+  const handshakeError = HandshakeService.validateConfig(data.handshakeConfig);
+  if (handshakeError) return reply.status(400).send({ error: handshakeError });
+
+  const signingError = validateSigningConfig(data.signingConfig);
+  if (signingError) return reply.status(400).send({ error: signingError });
+
+  const filterError = validateFilterRules(data.filterRules);
+  if (filterError) return reply.status(400).send({ error: filterError });
+
+  const transformError = validateTransform(data.transform);
+  if (transformError) return reply.status(400).send({ error: transformError });
+
+  const retryError = validateRetryPolicy(data.retryPolicy);
+  if (retryError) return reply.status(400).send({ error: retryError });
+
+  const responseRulesError = validateResponseRules(data.responseRules);
+  if (responseRulesError) return reply.status(400).send({ error: responseRulesError });
+
+  const breakerError = validateCircuitBreakerConfig(data.circuitBreaker);
+  if (breakerError) return reply.status(400).send({ error: breakerError });
+
+  const orderingError = validateOrderingConfig(data.ordering);
+  if (orderingError) return reply.status(400).send({ error: orderingError });
+
+  const maintenanceError = validateMaintenanceWindows(data.maintenanceWindows);
+  if (maintenanceError) return reply.status(400).send({ error: maintenanceError });
+
+  // targetUrl / rateLimit / concurrency / fallbackUrls still edit the destination of single-destination endpoints
+  const legacy = {
+    url: data.targetUrl,
+    rateLimit: data.rateLimit,
+    concurrency: data.concurrency,
+    fallbackUrls: data.fallbackUrls,
+    failoverPolicy: data.failoverPolicy
+  };
+  if (Object.values(legacy).some(value => value !== undefined)) {
+    const destinationError = validateDestination(legacy, true);
+    if (destinationError) return reply.status(400).send({ error: destinationError });
+
+    const destinations = await prisma.destination.findMany({ where: { endpointId: id }, select: { id: true } });
+    if (destinations.length !== 1) {
+      return reply.status(400).send({ error: 'This endpoint has several destinations - edit them via /endpoints/:id/destinations' });
+    }
+
+    await prisma.destination.update({ where: { id: destinations[0].id }, data: destinationData(legacy) });
+  }
+
+  // Optional update: a new secret replaces the ACTIVE one immediately
+  // (use POST /endpoints/:id/secrets to rotate without downtime)
+  const secretChanged = !!data.secret && !(await prisma.endpointSecret.findFirst({
+    where: { endpointId: id, status: 'ACTIVE', secret: data.secret }
+  }));
+
+  const updateEndpoint = prisma.endpoint.update({
     where: { id },
     data: {
       name: data.name,
-      targetUrl: data.targetUrl,
-      provider: data.provider,
-      rateLimit: Number(data.rateLimit),
-      secret: data.secret // Optional update
-    }
+      provider,
+      secrets: secretChanged ? { create: { secret: data.secret } } : undefined,
+      verifierConfig: jsonInput(data.verifierConfig),
+      accessControl: jsonInput(data.accessControl),
+      dedupConfig: jsonInput(data.dedupConfig),
+      handshakeConfig: jsonInput(data.handshakeConfig),
+      preserveRoute: data.preserveRoute === undefined ? undefined : Boolean(data.preserveRoute),
+      signingConfig: jsonInput(data.signingConfig),
+      filterRules: jsonInput(data.filterRules),
+      transform: jsonInput(data.transform),
+      retryPolicy: jsonInput(data.retryPolicy),
+      responseRules: jsonInput(data.responseRules),
+      circuitBreaker: jsonInput(data.circuitBreaker),
+      ordering: jsonInput(data.ordering),
+      maintenanceWindows: jsonInput(data.maintenanceWindows)
+    },
+    include: { destinations: true }
   });
 
-  return updated;
+  const updated = secretChanged
+    ? (await prisma.$transaction([
+        prisma.endpointSecret.updateMany({
+          where: { endpointId: id, status: 'ACTIVE' },
+          data: { status: 'EXPIRED' }
+        }),
+        updateEndpoint
+      ]))[1]
+    : await updateEndpoint;
+
+  // Drop the cached /hooks config so new access rules apply immediately
+  await redisClient.del(`endpoint:${id}:hooks-config`);
+
+  // Windows edited so that none is open any more: release what they were holding
+  if (data.maintenanceWindows !== undefined && !updated.isPaused && !MaintenanceService.active(updated)) {
+    await maintenanceService.flush([id]);
+  }
+
+  return hideSigningSecrets(updated);
 });
 
 // POST /endpoints/:id/recover - Bulk Replay Failed Events
@@ -618,42 +841,24 @@ fastify.post('/endpoints/:id/recover', { preHandler: [authenticate] }, async (re
 
   if (!endpoint) return reply.status(404).send({ error: 'Endpoint not found' });
 
-  // 2. Find all FAILED events for this endpoint
-  const failedEvents = await prisma.webhookEvent.findMany({
-    where: {
-      endpointId: id,
-      status: 'FAILED'
-    },
-    select: { id: true } // We only need IDs
+  // 2. Re-queue the FAILED deliveries (optionally for one destination) - successful ones aren't re-sent
+  const { destinationId } = (request.body as any) || {};
+  const count = await deliveryService.requeue({
+    status: 'FAILED',
+    destination: { endpointId: id },
+    ...(destinationId ? { destinationId } : {})
   });
 
-  if (failedEvents.length === 0) {
-    return { message: 'No failed events to recover', count: 0 };
+  if (count === 0) {
+    return { message: 'No failed deliveries to recover', count: 0 };
   }
 
-  // 3. Update DB Status to PENDING (Batch Update)
-  await prisma.webhookEvent.updateMany({
-    where: {
-      endpointId: id,
-      status: 'FAILED'
-    },
-    data: { status: 'PENDING' }
-  });
-
-  // 4. Push to Queue (Bulk)
-  const jobs = failedEvents.map(evt => ({
-    name: 'dispatch-webhook',
-    data: { eventId: evt.id }
-  }));
-
-  await queue.addJobsBulk(jobs);
-
-  request.log.info(`Recovered ${failedEvents.length} events for endpoint ${id}`);
+  request.log.info(`Recovered ${count} deliveries for endpoint ${id}`);
 
   return {
     success: true,
-    message: `Queued ${failedEvents.length} events for retry`,
-    count: failedEvents.length
+    message: `Queued ${count} deliveries for retry`,
+    count
   };
 });
 
@@ -0,0 +1,56 @@
+// src/api/transforms.ts
+import { FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from './middleware';
+import { buildOutboundRequest } from '../core/services/OutboundRequest';
+import { TransformError } from '../core/errors/TransformError';
+import { TransformSandbox } from '../infrastructure/sandbox/TransformSandbox';
+import { validateTransform } from '../utils/transform';
+
+export async function transformRoutes(
+  fastify: FastifyInstance,
+  opts: { prisma: PrismaClient; transformSandbox: TransformSandbox }
+) {
+  const { prisma, transformSandbox } = opts;
+
+  // POST /events/:id/transform-preview - What the worker would send for this event (nothing is sent)
+  // Body: { transform?, destinationId? } - without `transform`, previews the endpoint's current one
+  fastify.post('/events/:id/transform-preview', { preHandler: [authenticate] }, async (request, reply) => {
+    const { id } = request.params as any;
+    const data = (request.body as any) || {};
+
+    const event = await prisma.webhookEvent.findFirst({
+      where: { id, endpoint: { userId: request.user.userId } },
+      include: { endpoint: { include: { destinations: { orderBy: { createdAt: 'asc' } } } } }
+    });
+    if (!event) return reply.status(404).send({ error: 'Event not found' });
+
+    if (data.transform !== undefined) {
+      const validationError = validateTransform(data.transform);
+      if (validationError) return reply.status(400).send({ error: validationError });
+      event.endpoint.transform = data.transform;
+    }
+
+    const destination = data.destinationId
+      ? event.endpoint.destinations.find(d => d.id === data.destinationId)
+      : event.endpoint.destinations[0];
+    if (!destination) return reply.status(404).send({ error: 'Destination not found' });
+
+    try {
+      const { method, url, headers, contentType, body } = await buildOutboundRequest(event, destination, transformSandbox);
+      return {
+        destinationId: destination.id,
+        method,
+        url,
+        headers,
+        contentType,
+        body: Buffer.isBuffer(body) ? body.toString('utf8') : body
+      };
+    } catch (err) {
+      if (err instanceof TransformError) {
+        return reply.status(422).send({ error: err.message, code: err.code });
+      }
+      throw err;
+    }
+  });
+}
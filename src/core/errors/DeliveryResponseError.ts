@@ -0,0 +1,21 @@
+import { ResponseVerdict } from '../../utils/responseRules';
+
+/**
+ * Thrown by the worker when a target answered, but not with a success
+ * (judged by Endpoint.responseRules - a 200 can be a failure too).
+ */
+export class DeliveryResponseError extends Error {
+  constructor(public readonly status: number, public readonly verdict: ResponseVerdict) {
+    super(`Target responded ${status}: ${verdict.outcome} (${verdict.reason})`);
+    this.name = 'DeliveryResponseError';
+  }
+
+  get isFatal() {
+    return this.verdict.outcome === 'fatal';
+  }
+
+  // Set when the target told us when to come back (Retry-After / reset header)
+  get retryAfterMs() {
+    return this.verdict.retryAfterMs;
+  }
+}
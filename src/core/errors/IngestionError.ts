@@ -0,0 +1,32 @@
+import { RejectionReason } from '@prisma/client';
+
+export type IngestionErrorCode = RejectionReason | 'ENDPOINT_NOT_FOUND' | 'ENQUEUE_FAILED';
+
+// HTTP status returned to the sender for each rejection
+const STATUS_BY_CODE: Record<IngestionErrorCode, number> = {
+  ENDPOINT_NOT_FOUND: 404,
+  ENQUEUE_FAILED: 503, // Nothing was kept - the sender should retry
+  ENDPOINT_INACTIVE: 403,
+  INVALID_SIGNATURE: 401,
+  STALE_TIMESTAMP: 401,
+  NO_ACTIVE_SECRET: 401,
+  BODY_TOO_LARGE: 413
+};
+
+/**
+ * Thrown when an inbound webhook is rejected.
+ * Everything except ENDPOINT_NOT_FOUND and ENQUEUE_FAILED gets kept in the quarantine table.
+ */
+export class IngestionError extends Error {
+  readonly statusCode: number;
+
+  constructor(public readonly code: IngestionErrorCode, message?: string) {
+    super(message || code);
+    this.name = 'IngestionError';
+    this.statusCode = STATUS_BY_CODE[code];
+  }
+
+  get isQuarantinable() {
+    return this.code !== 'ENDPOINT_NOT_FOUND' && this.code !== 'ENQUEUE_FAILED';
+  }
+}
@@ -0,0 +1,16 @@
+import { Status } from '@prisma/client';
+
+/**
+ * Thrown when a delivery can't move to a status from the one it's in
+ * (see utils/lifecycle.ts) - e.g. skipping a delivery that's being sent.
+ */
+export class InvalidTransitionError extends Error {
+  constructor(
+    public readonly deliveryId: string,
+    public readonly from: Status | null, // null: the delivery is gone
+    public readonly to: Status
+  ) {
+    super(from ? `Delivery ${deliveryId} can't go from ${from} to ${to}` : `Delivery ${deliveryId} not found`);
+    this.name = 'InvalidTransitionError';
+  }
+}
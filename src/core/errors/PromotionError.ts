@@ -0,0 +1,26 @@
+export type PromotionErrorCode =
+  | 'NOT_FOUND'
+  | 'ALREADY_PROMOTED'
+  | 'BODY_NOT_CAPTURED'  // Rejected for its size, so there's nothing to replay
+  | 'UNPARSEABLE_BODY';  // Doesn't parse as its Content-Type says
+
+const STATUS_BY_CODE: Record<PromotionErrorCode, number> = {
+  NOT_FOUND: 404,
+  ALREADY_PROMOTED: 409,
+  BODY_NOT_CAPTURED: 400,
+  UNPARSEABLE_BODY: 400
+};
+
+/**
+ * Thrown when a quarantined request can't be promoted for a reason of its own
+ * (verification failures are IngestionErrors, like at ingestion time).
+ */
+export class PromotionError extends Error {
+  readonly statusCode: number;
+
+  constructor(public readonly code: PromotionErrorCode, message?: string) {
+    super(message || code);
+    this.name = 'PromotionError';
+    this.statusCode = STATUS_BY_CODE[code];
+  }
+}
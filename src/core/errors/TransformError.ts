@@ -0,0 +1,21 @@
+export type TransformErrorCode =
+  | 'INVALID_TRANSFORM'  // Spec doesn't parse (bad filter, wrong shape)
+  | 'EVALUATION_FAILED'  // Spec is valid but couldn't be applied to this event
+  | 'LIMIT_EXCEEDED'     // Step budget, output size or sandbox memory limit hit
+  | 'TIMEOUT'            // Sandbox didn't answer in time
+  | 'URL_NOT_ALLOWED';   // Built URL leaves the destination's origin
+
+/**
+ * Thrown when an endpoint's transform can't produce the outbound request.
+ * Transforms are deterministic, so only a timeout (likely load) is worth retrying.
+ */
+export class TransformError extends Error {
+  constructor(public readonly code: TransformErrorCode, message?: string) {
+    super(message || code);
+    this.name = 'TransformError';
+  }
+
+  get isRetriable() {
+    return this.code === 'TIMEOUT';
+  }
+}
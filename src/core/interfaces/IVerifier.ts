@@ -1,3 +1,9 @@
+// Request details some providers sign besides the body (e.g. Twilio signs the full URL)
+export interface VerificationContext {
+  url: string; // Path + query string as received, e.g. '/hooks/abc?foo=1'
+  receivedAt?: Date; // Timestamp tolerance is measured from here (defaults to now)
+}
+
 export interface IVerifier {
   /**
    * Verifies the webhook signature.
@@ -5,6 +11,25 @@ export interface IVerifier {
    * @param headers - The request headers containing the signature
    * @param secret - The signing secret stored in your Endpoint config
    * @param rawBody - The raw string/buffer of the request body (CRITICAL for crypto signatures)
+   * @param context - Optional request details (URL) for providers that sign more than the body
+   * @returns false on a signature mismatch. Throws IngestionError('STALE_TIMESTAMP') when the
+   *          signed timestamp is outside tolerance, so the rejection can be told apart.
    */
-  verify(payload: any, headers: any, secret: string, rawBody: string | Buffer): boolean;
+  verify(payload: any, headers: any, secret: string, rawBody: string | Buffer, context?: VerificationContext): boolean;
+
+  /**
+   * Optional: pulls provider identifiers (delivery IDs etc.) out of a verified request.
+   * The result is stored on `WebhookEvent.metadata` for tracing.
+   */
+  extractMetadata?(payload: any, headers: any): Record<string, any>;
+
+  /**
+   * Optional: the provider's unique delivery/event ID, used to drop resent duplicates.
+   */
+  extractDedupKey?(payload: any, headers: any): string | undefined;
+
+  /**
+   * Optional: the provider's event type (e.g. Stripe 'invoice.paid'), matched by `eventType` filter rules.
+   */
+  extractEventType?(payload: any, headers: any): string | undefined;
 }
\ No newline at end of file
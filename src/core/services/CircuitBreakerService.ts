@@ -0,0 +1,171 @@
+import { Destination, PrismaClient } from '@prisma/client';
+import { Redis } from 'ioredis';
+import cron from 'node-cron';
+import { DeliveryService } from './DeliveryService';
+import { MaintenanceService } from './MaintenanceService';
+import { CircuitBreakerConfig, resolveCircuitBreakerConfig } from '../../utils/circuitBreaker';
+
+// One sweep per minute across every worker process
+const SWEEP_LOCK_KEY = 'breaker-sweep';
+const SWEEP_LOCK_MS = 55 * 1000;
+
+// 'send': go ahead. 'probe': go ahead, this delivery decides whether the breaker closes. 'park': don't send.
+export type BreakerDecision = 'send' | 'probe' | 'park';
+
+/**
+ * Per-destination circuit breaker (configured on the endpoint).
+ * CLOSED -> OPEN after too many failures; deliveries are parked as PAUSED while OPEN.
+ * After the cooldown one delivery probes (HALF_OPEN): success closes the breaker and
+ * flushes the parked deliveries, failure re-opens it. Parked deliveries have no job, so
+ * the sweep queues one of them as the probe when nothing else arrives.
+ * State lives on the Destination row (shown by GET /endpoints), counters in Redis.
+ */
+export class CircuitBreakerService {
+  constructor(
+    private prisma: PrismaClient,
+    private redis: Redis,
+    private deliveryService: DeliveryService
+  ) {}
+
+  startCron() {
+    console.log('⏰ Circuit breaker sweep scheduled: every minute');
+
+    cron.schedule('* * * * *', async () => {
+      await this.sweep().catch(err => console.error('Circuit breaker sweep failed:', err));
+    });
+  }
+
+  // Queues a probe for each breaker past its cooldown; closes the ones whose endpoint turned the breaker off
+  async sweep() {
+    const locked = await this.redis.set(SWEEP_LOCK_KEY, '1', 'PX', SWEEP_LOCK_MS, 'NX');
+    if (!locked) return;
+
+    const destinations = await this.prisma.destination.findMany({
+      where: { breakerState: { not: 'CLOSED' }, isPaused: false, endpoint: { isPaused: false } },
+      select: {
+        id: true, breakerState: true, breakerOpenedAt: true, breakerProbeAt: true,
+        endpoint: { select: { circuitBreaker: true, maintenanceWindows: true, maintenanceResumedAt: true } }
+      }
+    });
+
+    for (const destination of destinations) {
+      const { enabled, cooldownMs } = resolveCircuitBreakerConfig(destination.endpoint.circuitBreaker as CircuitBreakerConfig | null);
+      if (!enabled) {
+        await this.close(destination.id, 'breaker turned off');
+        continue;
+      }
+
+      // Same timing admit() applies; maintenance would only park the probe again
+      const since = destination.breakerState === 'OPEN' ? destination.breakerOpenedAt : destination.breakerProbeAt;
+      if (since && Date.now() - since.getTime() < cooldownMs) continue;
+      if (MaintenanceService.active(destination.endpoint)) continue;
+
+      // A delivery already on its way gets to probe
+      const inFlight = await this.prisma.delivery.count({
+        where: { destinationId: destination.id, status: { in: ['QUEUED', 'PROCESSING'] } }
+      });
+      if (inFlight > 0) continue;
+
+      const parked = await this.prisma.delivery.findFirst({
+        where: { destinationId: destination.id, status: 'PAUSED' },
+        orderBy: { webhookEvent: { receivedAt: 'asc' } },
+        select: { id: true }
+      });
+      if (!parked) continue;
+
+      await this.deliveryService.requeue({ id: parked.id, status: 'PAUSED' });
+      console.log(`🩺 Queued delivery ${parked.id} to probe destination ${destination.id}.`);
+    }
+  }
+
+  async admit(destination: Destination, config: CircuitBreakerConfig | null): Promise<BreakerDecision> {
+    const { enabled, cooldownMs } = resolveCircuitBreakerConfig(config);
+    if (!enabled || destination.breakerState === 'CLOSED') return 'send';
+
+    // OPEN past its cooldown, or a HALF_OPEN probe that never reported back (worker died)
+    const since = destination.breakerState === 'OPEN' ? destination.breakerOpenedAt : destination.breakerProbeAt;
+    if (since && Date.now() - since.getTime() < cooldownMs) return 'park';
+
+    // Only one worker gets to send the probe
+    const { count } = await this.prisma.destination.updateMany({
+      where: { id: destination.id, breakerState: destination.breakerState, breakerProbeAt: destination.breakerProbeAt },
+      data: { breakerState: 'HALF_OPEN', breakerProbeAt: new Date() }
+    });
+    return count > 0 ? 'probe' : 'park';
+  }
+
+  async recordSuccess(destination: Destination, decision: BreakerDecision, config: CircuitBreakerConfig | null) {
+    const settings = resolveCircuitBreakerConfig(config);
+    if (!settings.enabled) return;
+
+    await this.redis.del(this.key(destination.id, 'consecutive'));
+    await this.count(destination.id, false, settings.windowMs);
+
+    if (decision === 'probe') await this.close(destination.id, 'probe succeeded');
+  }
+
+  // Retriable failures only - a fatal 4xx means the target is up
+  async recordFailure(destination: Destination, decision: BreakerDecision, config: CircuitBreakerConfig | null) {
+    const settings = resolveCircuitBreakerConfig(config);
+    if (!settings.enabled) return;
+
+    if (decision === 'probe') {
+      await this.open(destination.id, 'HALF_OPEN', 'probe failed');
+      return;
+    }
+
+    const consecutiveKey = this.key(destination.id, 'consecutive');
+    const consecutive = await this.redis.incr(consecutiveKey);
+    await this.redis.pexpire(consecutiveKey, settings.windowMs * 10);
+    const { total, failed } = await this.count(destination.id, true, settings.windowMs);
+
+    if (consecutive >= settings.failureThreshold) {
+      await this.open(destination.id, 'CLOSED', `${consecutive} consecutive failures`);
+    } else if (total >= settings.minRequests && failed / total >= settings.failureRate) {
+      await this.open(destination.id, 'CLOSED', `${failed}/${total} failed in the last ${settings.windowMs / 1000}s`);
+    }
+  }
+
+  private async close(destinationId: string, reason: string) {
+    await this.prisma.destination.update({
+      where: { id: destinationId },
+      data: { breakerState: 'CLOSED', breakerOpenedAt: null, breakerProbeAt: null }
+    });
+
+    // Same flush as resuming via toggle-pause - unless someone paused it meanwhile
+    const flushed = await this.deliveryService.requeue({
+      status: 'PAUSED',
+      destination: { id: destinationId, isPaused: false, endpoint: { isPaused: false } }
+    });
+    console.log(`🟢 Circuit closed for destination ${destinationId} (${reason}). Flushed ${flushed} parked deliveries.`);
+  }
+
+  private async open(destinationId: string, from: 'CLOSED' | 'HALF_OPEN', reason: string) {
+    const { count } = await this.prisma.destination.updateMany({
+      where: { id: destinationId, breakerState: from },
+      data: { breakerState: 'OPEN', breakerOpenedAt: new Date(), breakerProbeAt: null }
+    });
+    if (count === 0) return; // Another worker got there first
+
+    await this.redis.del(this.key(destinationId, 'consecutive'));
+    console.log(`🔴 Circuit opened for destination ${destinationId} (${reason}). Parking deliveries.`);
+  }
+
+  // Attempts/failures in the current window (fixed buckets of windowMs)
+  private async count(destinationId: string, failed: boolean, windowMs: number) {
+    const bucket = Math.floor(Date.now() / windowMs);
+    const key = this.key(destinationId, `window:${bucket}`);
+
+    const results = await this.redis.multi()
+      .hincrby(key, 'total', 1)
+      .hincrby(key, 'failed', failed ? 1 : 0)
+      .pexpire(key, windowMs * 2)
+      .exec();
+
+    return { total: Number(results?.[0]?.[1]) || 0, failed: Number(results?.[1]?.[1]) || 0 };
+  }
+
+  private key(destinationId: string, name: string) {
+    return `breaker:${destinationId}:${name}`;
+  }
+}
@@ -0,0 +1,132 @@
+import { Redis } from 'ioredis';
+import { ConcurrencyConfig, resolveConcurrencyConfig } from '../../utils/concurrency';
+
+// A crashed worker's slot frees itself after this (well past the 5s request timeout)
+const LEASE_MS = 30 * 1000;
+
+/**
+ * KEYS[1] = in-flight leases (zset: lease id -> expiry), KEYS[2] = adaptive state (hash)
+ * ARGV[1] = lease id, ARGV[2] = lease ms, ARGV[3] = max, ARGV[4] = '1' when adaptive
+ * Returns 1 when the lease was taken, 0 when the destination is at its limit.
+ * Both scripts write after reading TIME, which Redis 5+ allows (scripts replicate their effects).
+ */
+const ACQUIRE = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+
+local limit = tonumber(ARGV[3])
+if ARGV[4] == '1' then
+  local current = tonumber(redis.call('HGET', KEYS[2], 'limit'))
+  if current then limit = math.max(1, math.floor(current)) end
+end
+
+if redis.call('ZCARD', KEYS[1]) >= limit then return 0 end
+
+redis.call('ZADD', KEYS[1], now + tonumber(ARGV[2]), ARGV[1])
+redis.call('PEXPIRE', KEYS[1], tonumber(ARGV[2]) * 2)
+return 1
+`;
+
+/**
+ * AIMD step. KEYS[1] = adaptive state (hash: limit, decreasedAt)
+ * ARGV[1] = 'ok' | 'slow' | 'error', ARGV[2] = min, ARGV[3] = max, ARGV[4] = cooldown ms
+ * Decreases at most once per cooldown, so a burst of failures of one "window" counts once.
+ */
+const ADJUST = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local min = tonumber(ARGV[2])
+local max = tonumber(ARGV[3])
+
+local limit = tonumber(redis.call('HGET', KEYS[1], 'limit') or max)
+
+if ARGV[1] == 'ok' then
+  limit = math.min(max, limit + 1 / limit)
+else
+  local decreasedAt = tonumber(redis.call('HGET', KEYS[1], 'decreasedAt') or 0)
+  if now - decreasedAt >= tonumber(ARGV[4]) then
+    local factor = 0.8
+    if ARGV[1] == 'error' then factor = 0.5 end
+    limit = math.max(min, limit * factor)
+    redis.call('HSET', KEYS[1], 'decreasedAt', now)
+  end
+end
+
+redis.call('HSET', KEYS[1], 'limit', tostring(limit))
+redis.call('PEXPIRE', KEYS[1], 86400000)
+return tostring(limit)
+`;
+
+type ConcurrencyClient = Redis & {
+  concurrencyAcquire(leases: string, state: string, leaseId: string, leaseMs: number, max: number, adaptive: string): Promise<number>;
+  concurrencyAdjust(state: string, outcome: string, min: number, max: number, cooldownMs: number): Promise<string>;
+};
+
+export type DeliveryOutcome = 'ok' | 'error';
+
+/**
+ * Max-in-flight per destination (Destination.concurrency), enforced across worker
+ * processes with a Redis semaphore of expiring leases. Adaptive mode moves the limit
+ * with latency/errors (AIMD).
+ */
+export class ConcurrencyService {
+  private client: ConcurrencyClient;
+
+  constructor(redis: Redis) {
+    redis.defineCommand('concurrencyAcquire', { numberOfKeys: 2, lua: ACQUIRE });
+    redis.defineCommand('concurrencyAdjust', { numberOfKeys: 1, lua: ADJUST });
+    this.client = redis as ConcurrencyClient;
+  }
+
+  // True when the caller holds a slot (always, without a cap); release it when done
+  async acquire(destinationId: string, config: ConcurrencyConfig | null, leaseId: string): Promise<boolean> {
+    const settings = resolveConcurrencyConfig(config);
+    if (!settings) return true;
+
+    const taken = await this.client.concurrencyAcquire(
+      this.leasesKey(destinationId), this.stateKey(destinationId),
+      leaseId, LEASE_MS, settings.max, settings.adaptive ? '1' : '0'
+    );
+    return Number(taken) === 1;
+  }
+
+  // `outcome`/`latencyMs` feed adaptive mode (null: nothing to learn, e.g. nothing was sent).
+  // Fatal 4xx count as 'ok' - the target answered.
+  async release(destinationId: string, config: ConcurrencyConfig | null, leaseId: string, outcome: DeliveryOutcome | null, latencyMs: number) {
+    const settings = resolveConcurrencyConfig(config);
+    if (!settings) return;
+
+    await this.client.zrem(this.leasesKey(destinationId), leaseId);
+    if (!settings.adaptive || !outcome) return;
+
+    const step = outcome === 'error' ? 'error' : latencyMs > settings.targetLatencyMs ? 'slow' : 'ok';
+    await this.client.concurrencyAdjust(this.stateKey(destinationId), step, settings.min, settings.max, settings.targetLatencyMs);
+  }
+
+  // What GET /endpoints/:id/destinations shows
+  async snapshot(destinationId: string, config: ConcurrencyConfig | null) {
+    const settings = resolveConcurrencyConfig(config);
+    if (!settings) return null;
+
+    const [inFlight, current] = await Promise.all([
+      this.client.zcount(this.leasesKey(destinationId), Date.now(), '+inf'),
+      this.client.hget(this.stateKey(destinationId), 'limit')
+    ]);
+
+    return {
+      ...settings,
+      limit: settings.adaptive && current ? Math.max(1, Math.floor(Number(current))) : settings.max,
+      inFlight
+    };
+  }
+
+  private leasesKey(destinationId: string) {
+    return `inflight:${destinationId}`;
+  }
+
+  private stateKey(destinationId: string) {
+    return `inflight:${destinationId}:aimd`;
+  }
+}
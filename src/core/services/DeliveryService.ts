@@ -0,0 +1,215 @@
+import { Prisma, PrismaClient, Status } from '@prisma/client';
+import cron from 'node-cron';
+import { QueueService } from '../../infrastructure/queue/QueueService';
+import { RetryPolicy, resolveRetryPolicy } from '../../utils/retryPolicy';
+import { STALLED_PROCESSING_MS, transitionSources } from '../../utils/lifecycle';
+import { InvalidTransitionError } from '../errors/InvalidTransitionError';
+
+interface QueueableDelivery {
+  id: string;
+  destination: {
+    retryPolicy: Prisma.JsonValue | null;
+    endpoint: { retryPolicy: Prisma.JsonValue | null; userId: string };
+  };
+}
+
+// What enqueue() needs to pick each delivery's retry policy and tenant
+const QUEUEABLE_SELECT = {
+  retryPolicy: true,
+  endpoint: { select: { retryPolicy: true, userId: true } }
+} satisfies Prisma.DestinationSelect;
+
+// Deliveries moved back to QUEUED per statement (keeps bind parameters well under Postgres' limit)
+const REQUEUE_BATCH_SIZE = 5000;
+
+/**
+ * Fan-out bookkeeping: one Delivery per (event, destination), each with its own queue job.
+ * Delivery.status follows the state machine in utils/lifecycle.ts;
+ * WebhookEvent.status and its counters are a roll-up of its deliveries.
+ */
+export class DeliveryService {
+  constructor(
+    private prisma: PrismaClient,
+    private queue: QueueService
+  ) {}
+
+  // Anything still moving wins (queued before retry-scheduled, BLOCKED is waiting its turn), then
+  // PAUSED, then FAILED, then SKIPPED; COMPLETED only once every destination got it.
+  // FILTERED deliveries don't count unless the event was filtered out everywhere.
+  static rollup(statuses: Status[]): Status | null {
+    if (statuses.length === 0) return null;
+    if (statuses.every(s => s === 'FILTERED')) return 'FILTERED';
+    statuses = statuses.filter(s => s !== 'FILTERED');
+    if (statuses.includes('PROCESSING')) return 'PROCESSING';
+    if (statuses.includes('QUEUED')) return 'QUEUED';
+    if (statuses.includes('RETRY_SCHEDULED')) return 'RETRY_SCHEDULED';
+    if (statuses.includes('BLOCKED')) return 'BLOCKED';
+    if (statuses.includes('PAUSED')) return 'PAUSED';
+    if (statuses.includes('FAILED')) return 'FAILED';
+    if (statuses.includes('SKIPPED')) return 'SKIPPED';
+    return 'COMPLETED';
+  }
+
+  // Whether a job may send this delivery: it's waiting for a worker, or the worker sending it died
+  static isRunnable(delivery: { status: Status; updatedAt: Date }, now = Date.now()): boolean {
+    if (delivery.status === 'QUEUED' || delivery.status === 'RETRY_SCHEDULED') return true;
+    return delivery.status === 'PROCESSING' && delivery.updatedAt.getTime() < now - STALLED_PROCESSING_MS;
+  }
+
+  // One dispatch job per delivery, using the endpoint's retry policy (the destination's overrides it).
+  // The endpoint owner is the tenant the queue is shared fairly between.
+  // Fresh ingests, replays and /recover all come through here.
+  async enqueue(deliveries: QueueableDelivery[]) {
+    if (deliveries.length === 0) return;
+
+    await this.queue.addJobsBulk(deliveries.map(d => ({
+      name: 'dispatch-webhook',
+      data: { deliveryId: d.id },
+      retry: resolveRetryPolicy(
+        d.destination.endpoint.retryPolicy as RetryPolicy | null,
+        d.destination.retryPolicy as RetryPolicy | null
+      ),
+      tenant: d.destination.endpoint.userId
+    })));
+  }
+
+  /**
+   * Moves one delivery to `to` if the state machine allows it from where it is now
+   * (compare-and-set), otherwise throws InvalidTransitionError. Clears nextAttemptAt unless
+   * `data` sets it. Call refreshEventStatus afterwards.
+   */
+  async transition(
+    deliveryId: string,
+    to: Status,
+    data: Omit<Prisma.DeliveryUpdateManyMutationInput, 'status'> = {},
+    client: Prisma.TransactionClient | PrismaClient = this.prisma
+  ) {
+    const { count } = await client.delivery.updateMany({
+      where: { id: deliveryId, status: { in: transitionSources(to) } },
+      data: { nextAttemptAt: null, ...data, status: to }
+    });
+
+    if (count === 0) {
+      const current = await client.delivery.findUnique({ where: { id: deliveryId }, select: { status: true } });
+      throw new InvalidTransitionError(deliveryId, current?.status ?? null, to);
+    }
+  }
+
+  // -> PROCESSING, counting the attempt. A PROCESSING delivery is only taken over once it's
+  // stalled, so two jobs for one delivery never send it at the same time.
+  async start(deliveryId: string) {
+    const now = new Date();
+    const { count } = await this.prisma.delivery.updateMany({
+      where: {
+        id: deliveryId,
+        OR: [
+          { status: { in: transitionSources('PROCESSING').filter(s => s !== 'PROCESSING') } },
+          { status: 'PROCESSING', updatedAt: { lt: new Date(now.getTime() - STALLED_PROCESSING_MS) } }
+        ]
+      },
+      data: { status: 'PROCESSING', attemptCount: { increment: 1 }, lastAttemptAt: now, nextAttemptAt: null }
+    });
+
+    if (count === 0) {
+      const current = await this.prisma.delivery.findUnique({ where: { id: deliveryId }, select: { status: true } });
+      throw new InvalidTransitionError(deliveryId, current?.status ?? null, 'PROCESSING');
+    }
+  }
+
+  // Move matching deliveries back to QUEUED and queue them again (replay, /recover, resume).
+  // Deliveries the state machine doesn't allow that from (e.g. in flight) are left alone;
+  // a stalled PROCESSING one isn't in flight any more, so it's taken too (like start() does).
+  async requeue(where: Prisma.DeliveryWhereInput): Promise<number> {
+    const sources = transitionSources('QUEUED');
+    const stalledBefore = new Date(Date.now() - STALLED_PROCESSING_MS);
+    const candidates = await this.prisma.delivery.findMany({
+      where: {
+        AND: [where, { OR: [{ status: { in: sources } }, { status: 'PROCESSING', updatedAt: { lt: stalledBefore } }] }]
+      },
+      select: { id: true, webhookEventId: true, destination: { select: QUEUEABLE_SELECT } }
+    });
+
+    let count = 0;
+    for (let i = 0; i < candidates.length; i += REQUEUE_BATCH_SIZE) {
+      const batch = candidates.slice(i, i + REQUEUE_BATCH_SIZE);
+
+      // Compare-and-set: whatever moved meanwhile (or was requeued by a concurrent call) is skipped,
+      // so each delivery gets exactly one new job
+      const moved = await this.prisma.$queryRaw<{ id: string; webhookEventId: string }[]>`
+        UPDATE "Delivery"
+        SET "status" = 'QUEUED', "nextAttemptAt" = NULL, "completedAt" = NULL, "updatedAt" = NOW()
+        WHERE "id" IN (${Prisma.join(batch.map(d => d.id))})
+          AND ("status"::text IN (${Prisma.join(sources)}) OR ("status" = 'PROCESSING' AND "updatedAt" < ${stalledBefore}))
+        RETURNING "id", "webhookEventId"`;
+      if (moved.length === 0) continue;
+
+      // Each of these events now has a QUEUED delivery, so that's its roll-up (unless one is being sent)
+      const eventIds = [...new Set(moved.map(d => d.webhookEventId))];
+      await this.prisma.webhookEvent.updateMany({
+        where: { id: { in: eventIds }, status: { not: 'PROCESSING' } },
+        data: { status: 'QUEUED', nextAttemptAt: null, completedAt: null }
+      });
+
+      const movedIds = new Set(moved.map(d => d.id));
+      await this.enqueue(batch.filter(d => movedIds.has(d.id)));
+      count += moved.length;
+    }
+
+    return count;
+  }
+
+  startCron() {
+    console.log('⏰ Stalled delivery sweep scheduled: every minute');
+
+    cron.schedule('* * * * *', async () => {
+      await this.recoverStalled().catch(err => console.error('Stalled delivery sweep failed:', err));
+    });
+  }
+
+  // Deliveries left PROCESSING with no job behind them (the worker died, or failed before it could
+  // record the outcome) are queued again. requeue() is compare-and-set, so concurrent sweeps are harmless.
+  async recoverStalled(): Promise<number> {
+    const count = await this.requeue({
+      status: 'PROCESSING',
+      updatedAt: { lt: new Date(Date.now() - STALLED_PROCESSING_MS) }
+    });
+    if (count > 0) console.log(`🩹 Re-queued ${count} stalled deliveries.`);
+    return count;
+  }
+
+  // Status plus the lifecycle counters: total sends, the earliest scheduled retry,
+  // the latest send and the error of the latest failing destination
+  async refreshEventStatus(eventId: string) {
+    const deliveries = await this.prisma.delivery.findMany({
+      where: { webhookEventId: eventId },
+      select: { status: true, attemptCount: true, nextAttemptAt: true, lastAttemptAt: true, lastError: true, completedAt: true }
+    });
+
+    const status = DeliveryService.rollup(deliveries.map(d => d.status));
+    if (!status) return;
+
+    const latest = (dates: (Date | null)[]) => {
+      const times = dates.filter((d): d is Date => !!d).map(d => d.getTime());
+      return times.length > 0 ? new Date(Math.max(...times)) : null;
+    };
+
+    const retries = deliveries
+      .filter(d => d.status === 'RETRY_SCHEDULED' && d.nextAttemptAt)
+      .map(d => d.nextAttemptAt!.getTime());
+    const failing = deliveries
+      .filter(d => d.lastError)
+      .sort((a, b) => (b.lastAttemptAt?.getTime() ?? 0) - (a.lastAttemptAt?.getTime() ?? 0));
+
+    await this.prisma.webhookEvent.update({
+      where: { id: eventId },
+      data: {
+        status,
+        attemptCount: deliveries.reduce((sum, d) => sum + d.attemptCount, 0),
+        nextAttemptAt: retries.length > 0 ? new Date(Math.min(...retries)) : null,
+        lastAttemptAt: latest(deliveries.map(d => d.lastAttemptAt)),
+        lastError: failing[0]?.lastError ?? null,
+        completedAt: status === 'COMPLETED' ? (latest(deliveries.map(d => d.completedAt)) ?? new Date()) : null
+      }
+    });
+  }
+}
@@ -0,0 +1,88 @@
+import { Destination, PrismaClient } from '@prisma/client';
+import { Redis } from 'ioredis';
+import { FailoverPolicy, resolveFailoverPolicy } from '../../utils/failover';
+
+export interface FailoverTarget {
+  index: number; // 0 = Destination.url, n = fallbackUrls[n - 1]
+  url: string;
+}
+
+/**
+ * Picks which of a destination's URLs a delivery goes to, and moves the destination
+ * to the next fallback after a streak of failures (state lives on the Destination row).
+ */
+export class FailoverService {
+  constructor(
+    private prisma: PrismaClient,
+    private redis: Redis
+  ) {}
+
+  static urls(destination: Pick<Destination, 'url' | 'fallbackUrls'>): string[] {
+    return [destination.url, ...destination.fallbackUrls];
+  }
+
+  async pick(destination: Destination): Promise<FailoverTarget> {
+    const urls = FailoverService.urls(destination);
+    const active = destination.activeUrlIndex < urls.length ? destination.activeUrlIndex : 0; // Fallback removed since
+
+    if (active === 0) return { index: 0, url: urls[0] };
+
+    // Failed over: once per interval (across all workers) a delivery probes the primary.
+    // If the probe fails it's retried as usual - and the retry goes to the fallback.
+    const { probeIntervalMs } = resolveFailoverPolicy(destination.failoverPolicy as FailoverPolicy);
+    const probe = await this.redis.set(`failover-probe:${destination.id}`, '1', 'PX', probeIntervalMs, 'NX');
+
+    return probe ? { index: 0, url: urls[0] } : { index: active, url: urls[active] };
+  }
+
+  async recordSuccess(destination: Destination, target: FailoverTarget) {
+    // A probe got through: the primary is back
+    if (target.index === 0 && destination.activeUrlIndex !== 0) {
+      const { count } = await this.prisma.destination.updateMany({
+        where: { id: destination.id, activeUrlIndex: { not: 0 } },
+        data: { activeUrlIndex: 0, consecutiveFailures: 0, failingSince: null }
+      });
+      if (count > 0) console.log(`🩺 Destination ${destination.id} recovered. Back on ${target.url}`);
+      return;
+    }
+
+    // Only write when there's a streak to reset
+    await this.prisma.destination.updateMany({
+      where: { id: destination.id, activeUrlIndex: target.index, consecutiveFailures: { gt: 0 } },
+      data: { consecutiveFailures: 0, failingSince: null }
+    });
+  }
+
+  // Retriable failures only - a 4xx means the URL is up
+  async recordFailure(destination: Destination, target: FailoverTarget) {
+    const urls = FailoverService.urls(destination);
+    if (urls.length < 2) return;
+
+    // Failed probe: the fallback stays active
+    if (target.index !== destination.activeUrlIndex) return;
+
+    await this.prisma.destination.updateMany({
+      where: { id: destination.id, failingSince: null },
+      data: { failingSince: new Date() }
+    });
+    const current = await this.prisma.destination.update({
+      where: { id: destination.id },
+      data: { consecutiveFailures: { increment: 1 } }
+    });
+
+    const policy = resolveFailoverPolicy(destination.failoverPolicy as FailoverPolicy);
+    const streakMs = current.failingSince ? Date.now() - current.failingSince.getTime() : 0;
+    if (current.consecutiveFailures < policy.afterFailures && streakMs < policy.afterMs) return;
+
+    // The last fallback wraps around to the primary. Only one worker gets to switch.
+    const next = (target.index + 1) % urls.length;
+    const { count } = await this.prisma.destination.updateMany({
+      where: { id: destination.id, activeUrlIndex: target.index },
+      data: { activeUrlIndex: next, consecutiveFailures: 0, failingSince: null, failedOverAt: new Date() }
+    });
+
+    if (count > 0) {
+      console.log(`🔀 Failover: destination ${destination.id} moved from ${urls[target.index]} to ${urls[next]} after ${current.consecutiveFailures} failures`);
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { safeEqual } from '../../utils/safeEqual';
+import { IngestionError } from '../errors/IngestionError';
+import { VerifierFactory } from '../../infrastructure/verifiers/VerifierFactory';
+
+export interface HandshakeConfig {
+  type?: string;        // Defaults to the endpoint's provider; 'none' turns handshakes off
+  verifyToken?: string; // Meta/WhatsApp "hub.verify_token"
+}
+
+export interface HandshakeRequest {
+  method: string;
+  query: Record<string, any>;
+  payload: any;
+  headers?: Record<string, any>; // Signed handshakes (Slack, Zoom) are verified like any delivery
+  rawBody?: string | Buffer;
+  url?: string;
+}
+
+export interface HandshakeResponse {
+  status: number;
+  body: any;
+  headers?: Record<string, string>;
+}
+
+interface HandshakeContext {
+  verifyToken?: string;
+  secret?: string; // Signed handshakes: the secret the challenge was signed with
+}
+
+interface Handshake {
+  signedBy?: string; // Verifier the challenge must pass before it's answered
+  matches(req: HandshakeRequest): boolean;
+  respond(req: HandshakeRequest, ctx: HandshakeContext): Promise<HandshakeResponse>;
+}
+
+const textResponse = (body: string): HandshakeResponse => ({
+  status: 200,
+  body,
+  headers: { 'Content-Type': 'text/plain', 'X-Content-Type-Options': 'nosniff' }
+});
+
+const HANDSHAKES: Record<string, Handshake> = {
+  // Slack Events API: POST { type: 'url_verification', challenge }
+  slack: {
+    signedBy: 'slack',
+    matches: req => req.method === 'POST' && req.payload?.type === 'url_verification' && typeof req.payload.challenge === 'string',
+    respond: async req => ({ status: 200, body: { challenge: req.payload.challenge } })
+  },
+
+  // Meta / WhatsApp: GET ?hub.mode=subscribe&hub.challenge=...&hub.verify_token=...
+  meta: {
+    matches: req => req.method === 'GET' && req.query['hub.mode'] === 'subscribe',
+    respond: async (req, ctx) => {
+      if (!ctx.verifyToken) return { status: 403, body: { error: 'No verify token configured for this endpoint' } };
+      if (!safeEqual(String(req.query['hub.verify_token'] || ''), ctx.verifyToken)) {
+        return { status: 403, body: { error: 'Verify token mismatch' } };
+      }
+      return textResponse(String(req.query['hub.challenge'] || ''));
+    }
+  },
+
+  // Zoom: POST { event: 'endpoint.url_validation', payload: { plainToken } }, answered with an HMAC of the token.
+  // That answer is an HMAC under the signing secret, so only a challenge Zoom signed gets one.
+  zoom: {
+    signedBy: 'zoom',
+    matches: req => req.method === 'POST' && req.payload?.event === 'endpoint.url_validation'
+      && typeof req.payload.payload?.plainToken === 'string',
+    respond: async (req, ctx) => {
+      const plainToken = req.payload.payload.plainToken;
+      const encryptedToken = crypto.createHmac('sha256', ctx.secret!).update(plainToken).digest('hex');
+      return { status: 200, body: { plainToken, encryptedToken } };
+    }
+  },
+
+  // Dropbox: GET ?challenge=... echoed back as text
+  dropbox: {
+    matches: req => req.method === 'GET' && typeof req.query.challenge === 'string',
+    respond: async req => textResponse(req.query.challenge)
+  },
+
+  // Microsoft Graph subscriptions: POST ?validationToken=... echoed back as text
+  msgraph: {
+    matches: req => req.method === 'POST' && typeof req.query.validationToken === 'string',
+    respond: async req => textResponse(req.query.validationToken)
+  }
+};
+
+const ALIASES: Record<string, string> = {
+  whatsapp: 'meta',
+  facebook: 'meta',
+  instagram: 'meta'
+};
+
+/**
+ * Provider URL-verification handshakes on /hooks.
+ * These are answered synchronously and never stored or queued for delivery.
+ */
+export class HandshakeService {
+  constructor(private prisma: PrismaClient) {}
+
+  static resolveType(provider: string, config?: HandshakeConfig | null): string {
+    const type = (config?.type || provider || '').toLowerCase();
+    return ALIASES[type] || type;
+  }
+
+  // Cheap check (no DB) run on every /hooks request
+  static detect(type: string, req: HandshakeRequest): boolean {
+    const handshake = HANDSHAKES[type];
+    return !!handshake && handshake.matches(req);
+  }
+
+  async respond(endpointId: string, type: string, config: HandshakeConfig | null | undefined, req: HandshakeRequest) {
+    const handshake = HANDSHAKES[type];
+    let secret: string | undefined;
+
+    if (handshake.signedBy) {
+      const verified = await this.verifiedSecret(endpointId, handshake.signedBy, req);
+      if ('error' in verified) return verified.error;
+      secret = verified.secret;
+    }
+    return handshake.respond(req, { verifyToken: config?.verifyToken, secret });
+  }
+
+  // The usable secret (same rules as ingestion: any that hasn't expired) the challenge was signed with
+  private async verifiedSecret(
+    endpointId: string, provider: string, req: HandshakeRequest
+  ): Promise<{ secret: string } | { error: HandshakeResponse }> {
+    const now = new Date();
+    const secrets = await this.prisma.endpointSecret.findMany({
+      where: { endpointId, status: { not: 'EXPIRED' }, OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] }
+    });
+    if (secrets.length === 0) return { error: { status: 403, body: { error: 'No active secret configured for this endpoint' } } };
+
+    const verifier = VerifierFactory.getVerifier(provider);
+    try {
+      const match = secrets.find(s => verifier.verify(req.payload, req.headers || {}, s.secret, req.rawBody || '', { url: req.url || '' }));
+      if (match) return { secret: match.secret };
+    } catch (err) {
+      if (!(err instanceof IngestionError)) throw err;
+      return { error: { status: err.statusCode, body: { error: err.message } } };
+    }
+    return { error: { status: 401, body: { error: 'Invalid Signature' } } };
+  }
+
+  // Returns an error message, or null when the config is usable
+  static validateConfig(config: any): string | null {
+    if (config === null || config === undefined) return null;
+    if (typeof config !== 'object') return 'handshakeConfig must be an object';
+
+    const types = ['none', ...Object.keys(HANDSHAKES), ...Object.keys(ALIASES)];
+    if (config.type !== undefined && !types.includes(config.type)) {
+      return `handshakeConfig.type must be one of ${types.join(', ')}`;
+    }
+    if (config.verifyToken !== undefined && (typeof config.verifyToken !== 'string' || !config.verifyToken)) {
+      return 'handshakeConfig.verifyToken must be a non-empty string';
+    }
+    return null;
+  }
+}
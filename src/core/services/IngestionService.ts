@@ -1,56 +1,295 @@
-import { PrismaClient } from '@prisma/client';
-import { QueueService } from '../../infrastructure/queue/QueueService';
+import { Prisma, PrismaClient, RejectionReason, Status } from '@prisma/client';
+import { Redis } from 'ioredis';
+import { DeliveryService } from './DeliveryService';
+import { MaintenanceService } from './MaintenanceService';
 import { VerifierFactory } from '../../infrastructure/verifiers/VerifierFactory';
+import { IngestionError } from '../errors/IngestionError';
+import { PromotionError } from '../errors/PromotionError';
+import { IVerifier, VerificationContext } from '../interfaces/IVerifier';
+import { DEFAULT_DEDUP_WINDOW, DedupConfig, extractDedupKey } from '../../utils/dedupKey';
+import { InboundRoute, parseInboundRoute } from '../../utils/inboundRoute';
+import { FilterContext, FilterRules, matchesFilter, resolveEventType } from '../../utils/filterRules';
+import { OrderingConfig, resolveOrderingKey } from '../../utils/ordering';
 
+type EndpointWithSecrets = Prisma.EndpointGetPayload<{ include: { secrets: true; destinations: true } }>;
+
+// What gets stored for one inbound request
+interface InboundEvent {
+  payload: any;     // Parsed view (JSON / form fields / text); Buffers aren't searchable
+  rawBody: Buffer;  // Exact bytes as received - this is what gets forwarded
+  headers: any;
+  route: InboundRoute; // Method, sub-path and query string the sender used
+  metadata: any;
+  eventType?: string;
+  dedupKey?: string;
+}
 
 export class IngestionService {
   constructor(
     private prisma: PrismaClient,
-    private queue: QueueService
+    private deliveryService: DeliveryService,
+    private redis: Redis
   ) {}
 
   // 👇 CHANGED: Added 'rawBody' parameter
-  async ingest(endpointId: string, payload: any, headers: any, isPaused: boolean, rawBody: string | Buffer) {
-    const initialStatus = isPaused ? 'PAUSED' : 'PENDING';
-    
+  async ingest(endpointId: string, payload: any, headers: any, isPaused: boolean, rawBody: string | Buffer, requestUrl: string = '', method: string = 'POST') {
     // 1. Fetch Endpoint Config
     // Optimization: In production, verify against Redis cache first before hitting DB
-    const endpoint = await this.prisma.endpoint.findUnique({ where: { id: endpointId } });
-    
-    if (!endpoint || !endpoint.isActive) {
-      throw new Error('Endpoint not found or inactive');
-    }
+    const endpoint = await this.prisma.endpoint.findUnique({
+      where: { id: endpointId },
+      include: { secrets: true, destinations: true }
+    });
+
+    if (!endpoint) throw new IngestionError('ENDPOINT_NOT_FOUND', 'Endpoint not found');
+    if (!endpoint.isActive) throw new IngestionError('ENDPOINT_INACTIVE', 'Endpoint is inactive');
 
     // 2. Verify Signature (Security)
-    if (endpoint.secret && endpoint.provider !== 'generic') {
-      const verifier = VerifierFactory.getVerifier(endpoint.provider);
-      
-      // We pass the rawBody here because crypto needs exact byte matching
-      const isValid = verifier.verify(payload, headers, endpoint.secret, rawBody);
-      
-      if (!isValid) {
-        console.warn(`[Security] Signature mismatch for endpoint ${endpointId}`);
-        throw new Error('Invalid Signature');
-      }
+    const verifier = VerifierFactory.getVerifier(endpoint.provider, endpoint.verifierConfig);
+    this.verifySignature(endpoint, verifier, payload, headers, rawBody, { url: requestUrl });
+
+    // Provider identifiers (e.g. webhook-id) for tracing
+    const metadata = verifier.extractMetadata ? verifier.extractMetadata(payload, headers) : undefined;
+
+    // 3. Persist + enqueue (unless it's a resend of an event we already have)
+    const dedupKey = extractDedupKey(endpoint.dedupConfig as DedupConfig, verifier, payload, headers);
+    const result = await this.persistEvent(endpoint, {
+      payload,
+      rawBody: Buffer.isBuffer(rawBody) ? rawBody : Buffer.from(rawBody),
+      headers,
+      route: parseInboundRoute(method, requestUrl),
+      metadata,
+      eventType: resolveEventType(verifier, payload, headers),
+      dedupKey
+    }, isPaused);
+
+    return { success: true, ...result };
+  }
+
+  // Keep a rejected request so the secret/config can be debugged (and the event promoted later)
+  async quarantine(endpointId: string, headers: any, rawBody: string | Buffer, sourceIp: string, url: string, error: IngestionError, method: string = 'POST') {
+    try {
+      await this.prisma.quarantinedRequest.create({
+        data: {
+          endpointId,
+          headers,
+          rawBody: Buffer.isBuffer(rawBody) ? rawBody : Buffer.from(rawBody),
+          sourceIp,
+          url,
+          method,
+          reason: error.code as RejectionReason,
+          detail: error.message
+        }
+      });
+    } catch (err) {
+      // Never let a quarantine failure change the response the sender gets
+      console.error(`Failed to quarantine request for endpoint ${endpointId}:`, err);
     }
+  }
 
-    // 3. Persist Event (Database)
-    const event = await this.prisma.webhookEvent.create({
-      data: {
-        endpointId: endpoint.id,
-        payload: payload, // Stores the usable JSON
-        headers: headers,
-        status: initialStatus
-      }
+  /**
+   * Turns a quarantined request into a normal WebhookEvent.
+   * The signature is re-checked against the endpoint's current secrets unless `force` is set;
+   * timestamps are judged against when we originally received the request.
+   */
+  async promoteQuarantined(quarantineId: string, force = false) {
+    const entry = await this.prisma.quarantinedRequest.findUnique({
+      where: { id: quarantineId },
+      include: { endpoint: { include: { secrets: true, destinations: true } } }
     });
 
-    // 4. Push to Buffer (Redis)
-    if (!isPaused) {
-      await this.queue.addJob('dispatch-webhook', { eventId: event.id });
-    } else {
-      console.log(`⏸️ Event ${event.id} buffered (Endpoint Paused).`);
+    if (!entry) throw new PromotionError('NOT_FOUND', 'Quarantined request not found');
+    if (entry.promotedEventId) throw new PromotionError('ALREADY_PROMOTED', `Already promoted to event ${entry.promotedEventId}`);
+    if (entry.reason === 'BODY_TOO_LARGE') throw new PromotionError('BODY_NOT_CAPTURED', 'Body was not captured, nothing to promote');
+
+    const { endpoint } = entry;
+    if (!endpoint.isActive) throw new IngestionError('ENDPOINT_INACTIVE', 'Endpoint is inactive');
+
+    const headers = entry.headers as Record<string, any>;
+    let payload: any;
+    try {
+      payload = this.parseBody(entry.rawBody, headers['content-type']);
+    } catch (err: any) {
+      throw new PromotionError('UNPARSEABLE_BODY', `Body does not parse: ${err.message}`);
+    }
+    const verifier = VerifierFactory.getVerifier(endpoint.provider, endpoint.verifierConfig);
+
+    if (!force) {
+      this.verifySignature(endpoint, verifier, payload, headers, entry.rawBody, {
+        url: entry.url || '',
+        receivedAt: entry.receivedAt
+      });
     }
 
-    return { success: true, eventId: event.id };
+    const metadata = verifier.extractMetadata ? verifier.extractMetadata(payload, headers) : undefined;
+    const dedupKey = extractDedupKey(endpoint.dedupConfig as DedupConfig, verifier, payload, headers);
+    const result = await this.persistEvent(endpoint, {
+      payload,
+      rawBody: entry.rawBody,
+      headers,
+      route: parseInboundRoute(entry.method, entry.url || ''),
+      metadata,
+      eventType: resolveEventType(verifier, payload, headers),
+      dedupKey
+    }, endpoint.isPaused);
+
+    // A duplicate means the provider's retry already got through - point at that event
+    if (result.eventId) {
+      await this.prisma.quarantinedRequest.update({
+        where: { id: quarantineId },
+        data: { promotedEventId: result.eventId, promotedAt: new Date() }
+      });
+    }
+
+    return { success: true, ...result };
+  }
+
+  private verifySignature(
+    endpoint: EndpointWithSecrets,
+    verifier: IVerifier,
+    payload: any,
+    headers: any,
+    rawBody: string | Buffer,
+    context: VerificationContext
+  ) {
+    if (endpoint.secrets.length === 0 || endpoint.provider === 'generic') return;
+
+    // Any non-expired secret may match (old and new are both valid while rotating)
+    const now = new Date();
+    const usableSecrets = endpoint.secrets.filter(s =>
+      s.status !== 'EXPIRED' && (!s.expiresAt || s.expiresAt > now)
+    );
+
+    if (usableSecrets.length === 0) {
+      console.warn(`[Security] No usable secret for endpoint ${endpoint.id}`);
+      throw new IngestionError('NO_ACTIVE_SECRET', 'All signing secrets are expired');
+    }
+
+    // We pass the rawBody here because crypto needs exact byte matching
+    const isValid = usableSecrets.some(s =>
+      verifier.verify(payload, headers, s.secret, rawBody, context)
+    );
+
+    if (!isValid) {
+      console.warn(`[Security] Signature mismatch for endpoint ${endpoint.id}`);
+      throw new IngestionError('INVALID_SIGNATURE', 'Invalid Signature');
+    }
+  }
+
+  private async persistEvent(
+    endpoint: EndpointWithSecrets,
+    inbound: InboundEvent,
+    isPaused: boolean
+  ): Promise<{ eventId: string | null; duplicate: boolean }> {
+    const { payload, rawBody, headers, route, metadata, eventType, dedupKey } = inbound;
+
+    // 1. Duplicate check: Redis first (cheap), the unique constraint is the backstop
+    let redisKey: string | undefined;
+    if (dedupKey) {
+      redisKey = `dedup:${endpoint.id}:${dedupKey}`;
+      const window = Number((endpoint.dedupConfig as DedupConfig)?.windowSeconds) || DEFAULT_DEDUP_WINDOW;
+      const isNew = await this.redis.set(redisKey, '1', 'EX', window, 'NX');
+      if (!isNew) return this.recordDuplicate(endpoint.id, dedupKey);
+    }
+
+    if (endpoint.destinations.length === 0) {
+      console.warn(`⚠️ Endpoint ${endpoint.id} has no destinations - event stored but not delivered.`);
+    }
+
+    // One delivery per destination: FILTERED if the endpoint's or the destination's rules don't match,
+    // paused ones (or all of them, during a maintenance window) wait in the buffer
+    const isHeld = isPaused || !!MaintenanceService.active(endpoint);
+    const filterContext: FilterContext = { headers, payload, eventType };
+    const endpointMatches = matchesFilter(endpoint.filterRules as FilterRules, filterContext);
+    const orderingKey = resolveOrderingKey(endpoint.ordering as OrderingConfig, payload);
+    const deliveries = endpoint.destinations.map(d => ({
+      destinationId: d.id,
+      orderingKey,
+      status: (!endpointMatches || !matchesFilter(d.filterRules as FilterRules, filterContext)
+        ? 'FILTERED'
+        : (isHeld || d.isPaused ? 'PAUSED' : 'QUEUED')) as Status
+    }));
+
+    let event;
+    try {
+      event = await this.prisma.webhookEvent.create({
+        data: {
+          endpointId: endpoint.id,
+          payload: this.searchableView(payload), // Stores the usable JSON
+          rawBody: rawBody,
+          contentType: headers['content-type'] || null,
+          headers: headers,
+          method: route.method,
+          subPath: route.subPath,
+          queryString: route.queryString,
+          metadata: metadata,
+          eventType: eventType,
+          dedupKey: dedupKey,
+          status: DeliveryService.rollup(deliveries.map(d => d.status)) || (endpointMatches ? 'QUEUED' : 'FILTERED'),
+          deliveries: { create: deliveries }
+        },
+        include: { deliveries: { include: { destination: { include: { endpoint: { select: { retryPolicy: true, userId: true } } } } } } }
+      });
+    } catch (err) {
+      if (dedupKey && err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+        return this.recordDuplicate(endpoint.id, dedupKey);
+      }
+      // Forget the key so the provider's retry isn't mistaken for a duplicate
+      if (redisKey) await this.redis.del(redisKey);
+      throw err;
+    }
+
+    // 2. Push to Buffer (Redis)
+    const ready = event.deliveries.filter(d => d.status === 'QUEUED');
+    const paused = event.deliveries.filter(d => d.status === 'PAUSED');
+    try {
+      await this.deliveryService.enqueue(ready);
+    } catch (err) {
+      // Not queued: drop the event and its dedup key so the sender's retry is taken as new
+      console.error(`🔥 Failed to enqueue event ${event.id}:`, err);
+      await this.prisma.webhookEvent.delete({ where: { id: event.id } });
+      if (redisKey) await this.redis.del(redisKey);
+      throw new IngestionError('ENQUEUE_FAILED', 'Event could not be queued');
+    }
+    if (paused.length > 0) {
+      console.log(`⏸️ Event ${event.id} buffered for ${paused.length} paused destination(s).`);
+    }
+    if (event.status === 'FILTERED') {
+      console.log(`🔕 Event ${event.id} (${eventType || 'no type'}) matched no filter rule - not delivered.`);
+    }
+
+    return { eventId: event.id, duplicate: false };
+  }
+
+  // Count the resend on the original event instead of delivering it again
+  private async recordDuplicate(endpointId: string, dedupKey: string) {
+    console.log(`♻️ Duplicate ${dedupKey} for endpoint ${endpointId} suppressed.`);
+
+    try {
+      const original = await this.prisma.webhookEvent.update({
+        where: { endpointId_dedupKey: { endpointId, dedupKey } },
+        data: { duplicateCount: { increment: 1 } },
+        select: { id: true }
+      });
+      return { eventId: original.id, duplicate: true };
+    } catch (err) {
+      // Original not committed yet (concurrent resend) - still a duplicate
+      return { eventId: null, duplicate: true };
+    }
+  }
+
+  // Same parsing Fastify applies on the /hooks route
+  private parseBody(rawBody: Buffer, contentType: string = '') {
+    if (contentType.includes('application/json')) return JSON.parse(rawBody.toString('utf8'));
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+      return Object.fromEntries(new URLSearchParams(rawBody.toString('utf8')));
+    }
+    if (contentType.startsWith('text/')) return rawBody.toString('utf8');
+    return rawBody;
+  }
+
+  // Binary bodies (XML, protobuf...) only live in rawBody
+  private searchableView(payload: any) {
+    if (payload === undefined || payload === null || Buffer.isBuffer(payload)) return Prisma.DbNull;
+    return payload;
   }
-}
\ No newline at end of file
+}
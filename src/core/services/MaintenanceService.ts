@@ -0,0 +1,79 @@
+import { Endpoint, Prisma, PrismaClient } from '@prisma/client';
+import { Redis } from 'ioredis';
+import cron from 'node-cron';
+import { DeliveryService } from './DeliveryService';
+import { MaintenanceOccurrence, MaintenanceWindow, activeMaintenance } from '../../utils/maintenance';
+
+// One sweep per minute across every API instance
+const SWEEP_LOCK_KEY = 'maintenance-sweep';
+const SWEEP_LOCK_MS = 55 * 1000;
+
+type MaintainedEndpoint = Pick<Endpoint, 'maintenanceWindows' | 'maintenanceResumedAt'>;
+
+/**
+ * Maintenance windows (Endpoint.maintenanceWindows). Ingestion and the worker buffer
+ * deliveries as PAUSED while a window is open (see `active`); the sweep flushes them
+ * once it closes, the same way resuming via toggle-pause does.
+ */
+export class MaintenanceService {
+  constructor(
+    private prisma: PrismaClient,
+    private redis: Redis,
+    private deliveryService: DeliveryService
+  ) {}
+
+  static active(endpoint: MaintainedEndpoint, now = new Date()): MaintenanceOccurrence | null {
+    return activeMaintenance(endpoint.maintenanceWindows as MaintenanceWindow[] | null, endpoint.maintenanceResumedAt, now);
+  }
+
+  startCron() {
+    console.log('⏰ Maintenance sweep scheduled: every minute');
+
+    cron.schedule('* * * * *', async () => {
+      await this.flushEnded().catch(err => console.error('Maintenance sweep failed:', err));
+    });
+  }
+
+  // Flushes the buffer of every endpoint with windows that isn't in one (any more)
+  async flushEnded() {
+    const locked = await this.redis.set(SWEEP_LOCK_KEY, '1', 'PX', SWEEP_LOCK_MS, 'NX');
+    if (!locked) return;
+
+    const endpoints = await this.prisma.endpoint.findMany({
+      where: { maintenanceWindows: { not: Prisma.DbNull }, isPaused: false },
+      select: { id: true, maintenanceWindows: true, maintenanceResumedAt: true }
+    });
+
+    const now = new Date();
+    const open = endpoints.filter(endpoint => !MaintenanceService.active(endpoint, now)).map(endpoint => endpoint.id);
+    if (open.length === 0) return;
+
+    const flushed = await this.flush(open);
+    if (flushed > 0) console.log(`🛠️ Maintenance over: flushed ${flushed} buffered deliveries.`);
+  }
+
+  /**
+   * Ends the windows in progress now (later ones still apply) and flushes the buffer.
+   * Returns null when the endpoint isn't in a window.
+   */
+  async resume(endpoint: MaintainedEndpoint & Pick<Endpoint, 'id' | 'isPaused'>) {
+    const active = MaintenanceService.active(endpoint);
+    if (!active) return null;
+
+    await this.prisma.endpoint.update({ where: { id: endpoint.id }, data: { maintenanceResumedAt: new Date() } });
+
+    // A manually paused endpoint keeps buffering until it's resumed
+    const flushedDeliveries = endpoint.isPaused ? 0 : await this.flush([endpoint.id]);
+    console.log(`🛠️ Maintenance of endpoint ${endpoint.id} ended early. Flushed ${flushedDeliveries} deliveries.`);
+
+    return { endedWindow: active, flushedDeliveries };
+  }
+
+  // Paused destinations and open circuit breakers keep their buffer
+  async flush(endpointIds: string[]) {
+    return this.deliveryService.requeue({
+      status: 'PAUSED',
+      destination: { endpointId: { in: endpointIds }, isPaused: false, breakerState: 'CLOSED' }
+    });
+  }
+}
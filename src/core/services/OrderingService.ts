@@ -0,0 +1,87 @@
+import { Prisma, PrismaClient, Status } from '@prisma/client';
+import { DeliveryService } from './DeliveryService';
+
+// Deliveries still holding their place in a sequence. FAILED ones block until skipped or replayed.
+const UNFINISHED: Status[] = ['QUEUED', 'PROCESSING', 'RETRY_SCHEDULED', 'PAUSED', 'FAILED', 'BLOCKED'];
+
+interface SequenceRef {
+  destinationId: string;
+  orderingKey: string;
+}
+
+/**
+ * FIFO delivery per (destination, ordering key) - see utils/ordering.ts.
+ * Only the head of a sequence is sent; the others wait as BLOCKED and the head releases
+ * the next one when it completes (or is skipped). Checks and releases of one sequence are
+ * serialized with a Postgres advisory lock.
+ */
+export class OrderingService {
+  constructor(
+    private prisma: PrismaClient,
+    private deliveryService: DeliveryService
+  ) {}
+
+  // True when this delivery is the head of its sequence; otherwise it's now BLOCKED.
+  // False without touching it when it no longer holds a place (skipped or finished) - e.g. the
+  // retry job of a head that was skipped must not put it back in line.
+  async admit(delivery: { id: string; webhookEventId: string } & SequenceRef): Promise<boolean> {
+    const { isHead, stalled } = await this.prisma.$transaction(async tx => {
+      await this.lock(tx, delivery);
+
+      const own = await tx.delivery.findUnique({ where: { id: delivery.id }, select: { status: true } });
+      if (!own || !UNFINISHED.includes(own.status)) return { isHead: false, stalled: null };
+
+      const head = await this.head(tx, delivery);
+      if (!head || head.id === delivery.id) return { isHead: true, stalled: null };
+
+      await this.deliveryService.transition(delivery.id, 'BLOCKED', {}, tx);
+
+      // A head that's BLOCKED itself missed its release (e.g. the worker died mid-way)
+      return { isHead: false, stalled: head.status === 'BLOCKED' ? head : null };
+    });
+
+    if (!isHead) await this.deliveryService.refreshEventStatus(delivery.webhookEventId);
+    if (stalled) await this.release(delivery);
+    return isHead;
+  }
+
+  // Called once the head is done (COMPLETED or SKIPPED): queue whoever is next.
+  // requeue is a compare-and-set, so concurrent releases queue it once.
+  async release(sequence: SequenceRef) {
+    const head = await this.head(this.prisma, sequence);
+    if (head?.status === 'BLOCKED') await this.deliveryService.requeue({ id: head.id, status: 'BLOCKED' });
+  }
+
+  // Unblocks a stuck sequence: the head is marked SKIPPED and the next delivery goes out.
+  // Throws InvalidTransitionError when the head is being sent right now.
+  async skipHead(sequence: SequenceRef) {
+    const skipped = await this.prisma.$transaction(async tx => {
+      await this.lock(tx, sequence);
+
+      const head = await this.head(tx, sequence);
+      if (!head) return null;
+
+      await this.deliveryService.transition(head.id, 'SKIPPED', {}, tx);
+      return head;
+    });
+
+    if (!skipped) return null;
+
+    await this.deliveryService.refreshEventStatus(skipped.webhookEventId);
+    await this.release(sequence);
+    return skipped;
+  }
+
+  // Earliest delivery of the sequence that still holds its place
+  head(client: Prisma.TransactionClient | PrismaClient, sequence: SequenceRef) {
+    return client.delivery.findFirst({
+      where: { destinationId: sequence.destinationId, orderingKey: sequence.orderingKey, status: { in: UNFINISHED } },
+      orderBy: [{ webhookEvent: { receivedAt: 'asc' } }, { webhookEventId: 'asc' }],
+      select: { id: true, webhookEventId: true, status: true, nextAttemptAt: true, updatedAt: true }
+    });
+  }
+
+  private lock(tx: Prisma.TransactionClient, sequence: SequenceRef) {
+    return tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`${sequence.destinationId}:${sequence.orderingKey}`}))`;
+  }
+}
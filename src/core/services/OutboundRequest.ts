@@ -0,0 +1,100 @@
+import { Destination, Prisma } from '@prisma/client';
+import { TransformSandbox } from '../../infrastructure/sandbox/TransformSandbox';
+import { TransformError } from '../errors/TransformError';
+import { buildTargetUrl } from '../../utils/inboundRoute';
+import { TransformSpec } from '../../utils/transform';
+
+type EventWithEndpoint = Prisma.WebhookEventGetPayload<{ include: { endpoint: true } }>;
+
+export interface OutboundRequest {
+  method: string;
+  url: string;
+  headers: Record<string, any>;
+  body: Buffer | string; // Exactly what gets signed and sent
+  contentType: string;
+}
+
+/**
+ * What the worker sends for one delivery (also used by the transform preview route).
+ * Signing is left to the caller since it depends on the send time.
+ * `baseUrl` is the destination URL in use - a fallback one while failed over.
+ */
+export async function buildOutboundRequest(
+  event: EventWithEndpoint,
+  destination: Destination,
+  sandbox: TransformSandbox,
+  baseUrl = destination.url
+): Promise<OutboundRequest> {
+  // 1. Create a Clean Copy of Headers
+  const headers = { ...(event.headers as Record<string, any> || {}) };
+
+  // 2. Remove "Forbidden" Headers that break routing/payloads
+  delete headers['host'];             // <--- THE FIX
+  delete headers['content-length'];   // Let Axios calculate this
+  delete headers['connection'];
+  delete headers['accept-encoding'];  // Let Axios handle compression
+  delete headers['content-type'];     // Set below from what we stored
+
+  // 3. Forward the exact bytes we received (older events only have the parsed JSON)
+  // Serialized here so the bytes we sign are the bytes we send
+  const request: OutboundRequest = {
+    method: event.endpoint.preserveRoute ? event.method : 'POST',
+    url: baseUrl,
+    headers,
+    body: event.rawBody ?? JSON.stringify(event.payload),
+    contentType: event.rawBody ? (event.contentType || 'application/octet-stream') : 'application/json'
+  };
+
+  // 4. Relay the sender's method + sub-path + query string if the endpoint fronts a router
+  if (event.endpoint.preserveRoute) request.url = buildTargetUrl(baseUrl, event);
+
+  // 5. Reshape body / headers / URL (runs in the sandbox)
+  const spec = event.endpoint.transform as TransformSpec | null;
+  if (!spec) return request;
+
+  const output = await sandbox.run(spec, {
+    payload: event.payload,
+    headers,
+    event: {
+      id: event.id,
+      type: event.eventType,
+      receivedAt: event.receivedAt.toISOString(),
+      method: event.method,
+      subPath: event.subPath,
+      queryString: event.queryString
+    },
+    destination: { id: destination.id, name: destination.name, url: baseUrl }
+  });
+
+  request.headers = output.headers;
+
+  if (output.body !== undefined) {
+    request.body = typeof output.body === 'string' ? output.body : JSON.stringify(output.body);
+    request.contentType = typeof output.body === 'string' ? 'text/plain' : 'application/json';
+  }
+
+  // A Content-Type set by the transform wins
+  if (request.headers['content-type']) {
+    request.contentType = request.headers['content-type'];
+    delete request.headers['content-type'];
+  }
+
+  if (output.url !== undefined) request.url = resolveTransformUrl(output.url, request.url);
+
+  return request;
+}
+
+// Payload-built URLs may change the path/query, never the host (that would let senders redirect deliveries)
+function resolveTransformUrl(built: string, base: string): string {
+  let url: URL;
+  try {
+    url = new URL(built, base);
+  } catch (e) {
+    throw new TransformError('EVALUATION_FAILED', `Transform built an invalid URL: ${built}`);
+  }
+
+  if (url.origin !== new URL(base).origin) {
+    throw new TransformError('URL_NOT_ALLOWED', `Transform URL must stay on ${new URL(base).origin}`);
+  }
+  return url.toString();
+}
@@ -1,21 +1,38 @@
 // src/infrastructure/logger/BatchLogger.ts
-import { PrismaClient } from '@prisma/client';
+import { AttemptErrorClass, Prisma, PrismaClient } from '@prisma/client';
 
 interface LogEntry {
   webhookEventId: string;
+  deliveryId?: string;
+  url?: string;
   success: boolean;
-  responseStatus: number;
-  responseBody: string;
+  durationMs?: number | null;
+  requestHeaders?: Record<string, any>;
+  responseStatus: number | null;
+  responseHeaders?: Record<string, any>;
+  responseBody: string | null;  // Full body - truncated here
+  errorClass?: AttemptErrorClass;
+  errorCode?: string;
+  errorMessage?: string;
   attemptedAt: Date;
 }
 
+// Response bodies are kept up to this many bytes (ATTEMPT_BODY_LIMIT_BYTES overrides)
+const DEFAULT_BODY_LIMIT_BYTES = 4096;
+
+// Never stored in the attempt log
+const REDACTED_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key'];
+
 export class BatchLogger {
-  private buffer: LogEntry[] = [];
+  private buffer: Prisma.DeliveryAttemptCreateManyInput[] = [];
   private readonly BATCH_SIZE = 100; // Flush after 100 logs
   private readonly FLUSH_INTERVAL = 5000; // Flush every 5 seconds
   private prisma: PrismaClient;
 
-  constructor(prisma: PrismaClient) {
+  constructor(
+    prisma: PrismaClient,
+    private bodyLimitBytes = Number(process.env.ATTEMPT_BODY_LIMIT_BYTES) || DEFAULT_BODY_LIMIT_BYTES
+  ) {
     this.prisma = prisma;
 
     // Start the timer to auto-flush even if buffer isn't full
@@ -24,7 +41,14 @@ export class BatchLogger {
 
   // 1. Add log to memory buffer
   add(entry: LogEntry) {
-    this.buffer.push(entry);
+    const body = entry.responseBody;
+    this.buffer.push({
+      ...entry,
+      requestHeaders: redact(entry.requestHeaders),
+      responseHeaders: redact(entry.responseHeaders),
+      responseBody: body === null ? null : truncateUtf8(body, this.bodyLimitBytes),
+      responseSize: body === null ? null : Buffer.byteLength(body)
+    });
 
     // If buffer is full, flush immediately
     if (this.buffer.length >= this.BATCH_SIZE) {
@@ -41,7 +65,7 @@ export class BatchLogger {
 
     try {
       console.log(`💾 Batch Logger: Saving ${dataToWrite.length} logs to DB...`);
-      
+
       // Efficient Bulk Insert
       await this.prisma.deliveryAttempt.createMany({
         data: dataToWrite
@@ -51,4 +75,23 @@ export class BatchLogger {
       // In a real app, you might write this to a file as a backup
     }
   }
-}
\ No newline at end of file
+}
+
+// Lower-cased names, string values, credentials masked
+function redact(headers?: Record<string, any>): Record<string, string> | undefined {
+  if (!headers) return undefined;
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || value === null) continue;
+    const key = name.toLowerCase();
+    result[key] = REDACTED_HEADERS.includes(key) ? '[redacted]' : (Array.isArray(value) ? value.join(', ') : String(value));
+  }
+  return result;
+}
+
+// Cuts at a byte budget without splitting a multi-byte character
+function truncateUtf8(text: string, maxBytes: number): string {
+  const bytes = Buffer.from(text);
+  if (bytes.length <= maxBytes) return text;
+  return bytes.subarray(0, maxBytes).toString('utf8').replace(/\uFFFD$/, '');
+}
@@ -0,0 +1,137 @@
+// src/infrastructure/queue/FairScheduler.ts
+import { Redis } from 'ioredis';
+
+// BullMQ's highest usable priority number (2^21 - 1)
+const MAX_PRIORITY = 2097151;
+
+// A tenant's backlog counter is dropped after this long without new jobs (heals any drift)
+const BACKLOG_TTL_SECONDS = 60 * 60;
+
+// How long per-minute lag samples are kept
+const LAG_TTL_SECONDS = 24 * 60 * 60;
+export const MAX_LAG_MINUTES = 24 * 60;
+
+/**
+ * First pickup of a job. Counts it once, however often a delayed reschedule brings it back.
+ * KEYS[1] = tenant backlog counter, KEYS[2] = "already started" marker, KEYS[3] = lag bucket (hash)
+ * ARGV[1] = queue lag (ms), ARGV[2] = lag bucket TTL (s)
+ */
+const STARTED = `
+if not redis.call('SET', KEYS[2], '1', 'NX', 'EX', 86400) then return 0 end
+
+if redis.call('DECR', KEYS[1]) < 0 then redis.call('SET', KEYS[1], 0) end
+
+local lag = tonumber(ARGV[1])
+redis.call('HINCRBY', KEYS[3], 'jobs', 1)
+redis.call('HINCRBY', KEYS[3], 'sumMs', lag)
+if lag > tonumber(redis.call('HGET', KEYS[3], 'maxMs') or -1) then redis.call('HSET', KEYS[3], 'maxMs', lag) end
+redis.call('EXPIRE', KEYS[3], tonumber(ARGV[2]))
+return 1
+`;
+
+type FairClient = Redis & {
+  fairStarted(backlog: string, marker: string, bucket: string, lagMs: number, ttl: number): Promise<number>;
+};
+
+export interface QueueLagMinute {
+  minute: string;  // ISO start of the minute
+  jobs: number;
+  avgMs: number;
+  maxMs: number;
+}
+
+/**
+ * Tenant-fair ordering on the shared webhook queue (tenant = the endpoint owner).
+ * Each job's BullMQ priority is its position in its tenant's backlog, so workers take
+ * the 1st job of every tenant, then every tenant's 2nd... (round-robin): a 100k-event
+ * burst from one account queues behind itself, not in front of everyone else.
+ * Within a tenant it's roughly arrival order - ordered endpoints rely on their ordering key.
+ *
+ * Also records queue lag (enqueue -> first pickup) per tenant and minute.
+ */
+export class FairScheduler {
+  private client: FairClient;
+
+  constructor(redis: Redis) {
+    redis.defineCommand('fairStarted', { numberOfKeys: 3, lua: STARTED });
+    this.client = redis as FairClient;
+  }
+
+  // Priorities for a batch of jobs, in order (one tenant id per job)
+  async assign(tenants: string[]): Promise<number[]> {
+    const counts = new Map<string, number>();
+    for (const tenant of tenants) counts.set(tenant, (counts.get(tenant) || 0) + 1);
+
+    const pipeline = this.client.pipeline();
+    for (const [tenant, count] of counts) {
+      pipeline.incrby(this.backlogKey(tenant), count);
+      pipeline.expire(this.backlogKey(tenant), BACKLOG_TTL_SECONDS);
+    }
+    const results = (await pipeline.exec()) || [];
+
+    // Backlog size before this batch, per tenant
+    const next = new Map<string, number>();
+    [...counts].forEach(([tenant, count], i) => {
+      const [err, total] = results[i * 2] || [];
+      next.set(tenant, err ? 0 : Number(total) - count);
+    });
+
+    return tenants.map(tenant => {
+      const position = next.get(tenant)! + 1;
+      next.set(tenant, position);
+      return Math.min(Math.max(position, 1), MAX_PRIORITY);
+    });
+  }
+
+  // Call when a worker picks the job up; repeats (delayed reschedules, retries) are ignored
+  async started(tenant: string, job: { id?: string; timestamp: number }, now = Date.now()) {
+    const lagMs = Math.max(now - job.timestamp, 0);
+    await this.client.fairStarted(
+      this.backlogKey(tenant), `fair:started:${job.id}`, this.lagKey(tenant, minuteOf(now)),
+      lagMs, LAG_TTL_SECONDS
+    );
+  }
+
+  // Jobs still waiting for a first pickup, plus the lag of the last `minutes` minutes
+  async lag(tenant: string, minutes: number, now = Date.now()) {
+    const current = minuteOf(now);
+    const range = Array.from({ length: minutes }, (_, i) => current - (minutes - 1 - i) * 60000);
+
+    const pipeline = this.client.pipeline();
+    pipeline.get(this.backlogKey(tenant));
+    for (const minute of range) pipeline.hgetall(this.lagKey(tenant, minute));
+    const [[, waiting], ...buckets] = ((await pipeline.exec()) || []) as [Error | null, any][];
+
+    const series: QueueLagMinute[] = range.map((minute, i) => {
+      const bucket = buckets[i]?.[1] || {};
+      const jobs = Number(bucket.jobs) || 0;
+      return {
+        minute: new Date(minute).toISOString(),
+        jobs,
+        avgMs: jobs > 0 ? Math.round(Number(bucket.sumMs) / jobs) : 0,
+        maxMs: Number(bucket.maxMs) || 0
+      };
+    });
+
+    const jobs = series.reduce((sum, m) => sum + m.jobs, 0);
+    return {
+      waiting: Number(waiting) || 0,
+      jobs,
+      avgMs: jobs > 0 ? Math.round(series.reduce((sum, m) => sum + m.avgMs * m.jobs, 0) / jobs) : 0,
+      maxMs: Math.max(0, ...series.map(m => m.maxMs)),
+      series
+    };
+  }
+
+  private backlogKey(tenant: string) {
+    return `fair:backlog:${tenant}`;
+  }
+
+  private lagKey(tenant: string, minute: number) {
+    return `fair:lag:${tenant}:${minute}`;
+  }
+}
+
+function minuteOf(ms: number) {
+  return Math.floor(ms / 60000) * 60000;
+}
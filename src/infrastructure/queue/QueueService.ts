@@ -1,7 +1,26 @@
 // src/infrastructure/queue/QueueService.ts
-import { Queue, Worker } from 'bullmq';
+import { MinimalJob, Queue, Worker } from 'bullmq';
 import { Redis } from 'ioredis';
 import { redisClient } from '../redis/redis';
+import { ResolvedRetryPolicy, nextRetryAt, retryDelayMs } from '../../utils/retryPolicy';
+import { DeliveryResponseError } from '../../core/errors/DeliveryResponseError';
+import { FairScheduler } from './FairScheduler';
+
+// Custom BullMQ backoff: the delay comes from the policy carried in job.data.retry
+const RETRY_POLICY_BACKOFF = 'retry-policy';
+
+// Pass as `settings.backoffStrategy` to every Worker of a queue fed by QueueService
+export function retryPolicyBackoff(attemptsMade: number, type?: string, err?: Error, job?: MinimalJob): number {
+  const policy = job?.data?.retry as ResolvedRetryPolicy | undefined;
+  if (type !== RETRY_POLICY_BACKOFF || !policy || !job) return 0;
+
+  // The target said when to come back (Retry-After)
+  const retryAfterMs = err instanceof DeliveryResponseError ? err.retryAfterMs : undefined;
+
+  // attemptsMade here already counts the failed try
+  const next = nextRetryAt(policy, { attemptsMade: attemptsMade - 1, queuedAt: job.timestamp, seed: String(job.id) }, retryAfterMs);
+  return next ? (retryAfterMs ?? retryDelayMs(policy, attemptsMade, String(job.id))) : -1; // -1: stop retrying
+}
 
 // const connection = new Redis(process.env.REDIS_URL!, {
 //   maxRetriesPerRequest: null
@@ -9,6 +28,7 @@ import { redisClient } from '../redis/redis';
 
 export class QueueService {
   private queue: Queue;
+  private fairness = new FairScheduler(redisClient);
 
   constructor(queueName: string) {
     this.queue = new Queue(queueName, { 
@@ -16,39 +36,40 @@ export class QueueService {
     });
   }
 
-  async addJob(name: string, data: any) {
-    // ... inside your addJob method ...
-
-    return this.queue.add(name, data, {
-      // 1. EXTEND RETRIES TO ~15 DAYS
-      // 2^18 * 5 seconds ≈ 1,310,720 seconds ≈ 15 days
-      attempts: 18, 
-
-      // 2. ENABLE EXPONENTIAL BACKOFF
-      backoff: {
-        type: 'exponential',
-        delay: 5000 // Start with 5 seconds delay (then 10s, 20s, 40s...)
-      },
-
-      // 3. CLEANUP (Keep memory low)
-      removeOnComplete: { age: 3600, count: 1000 },
-      removeOnFail: { age: 7 * 24 * 3600 } // Keep failed jobs for 7 days
-    });
+  // `retry` is the delivery's resolved policy (see utils/retryPolicy.ts); it travels in job.data.retry.
+  // `tenant` (the endpoint owner) gets the job its fair share of the queue (see FairScheduler).
+  async addJob(name: string, data: any, retry: ResolvedRetryPolicy, tenant: string) {
+    const [priority] = await this.fairness.assign([tenant]);
+    return this.queue.add(name, { ...data, retry, tenant }, this.jobOptions(retry, priority));
   }
 
-  async addJobsBulk(jobs: { name: string; data: any }[]) {
+  async addJobsBulk(jobs: { name: string; data: any; retry: ResolvedRetryPolicy; tenant: string }[]) {
+    const priorities = await this.fairness.assign(jobs.map(j => j.tenant));
+
     // Map our simple data to BullMQ structure
-    const bulkData = jobs.map(j => ({
+    const bulkData = jobs.map((j, i) => ({
       name: j.name,
-      data: j.data,
-      opts: {
-        attempts: 18, // Ensure these "resurrected" jobs get the new exponential logic
-        backoff: { type: 'exponential', delay: 5000 },
-        removeOnComplete: { age: 3600, count: 1000 },
-        removeOnFail: { age: 7 * 24 * 3600 }
-      }
+      data: { ...j.data, retry: j.retry, tenant: j.tenant },
+      opts: this.jobOptions(j.retry, priorities[i]) // Ensure these "resurrected" jobs get the current policy
     }));
 
     return this.queue.addBulk(bulkData);
   }
+
+  private jobOptions(retry: ResolvedRetryPolicy, priority: number) {
+    return {
+      // 1. RETRIES (endpoint / destination policy)
+      attempts: retry.attempts,
+
+      // Fair share: lower runs first, and every job needs one (un-prioritized jobs would jump the line)
+      priority,
+
+      // 2. BACKOFF (exponential, fixed or jittered - computed by retryPolicyBackoff)
+      backoff: { type: RETRY_POLICY_BACKOFF },
+
+      // 3. CLEANUP (Keep memory low)
+      removeOnComplete: { age: 3600, count: 1000 },
+      removeOnFail: { age: 7 * 24 * 3600 } // Keep failed jobs for 7 days
+    };
+  }
 }
\ No newline at end of file
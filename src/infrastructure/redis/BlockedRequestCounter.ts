@@ -0,0 +1,47 @@
+// src/infrastructure/redis/BlockedRequestCounter.ts
+import { PrismaClient } from '@prisma/client';
+import { Redis } from 'ioredis';
+
+const PENDING_SET = 'blocked:pending'; // Endpoints with counts not written to Postgres yet
+const countKey = (endpointId: string) => `blocked:${endpointId}:count`;
+
+/**
+ * Endpoint.blockedCount without a DB write per rejected request: a flood of bad
+ * requests only INCRs Redis, and the totals are added to Postgres every few seconds.
+ */
+export class BlockedRequestCounter {
+  private readonly FLUSH_INTERVAL = 10000; // Flush every 10 seconds
+
+  constructor(
+    private prisma: PrismaClient,
+    private redis: Redis
+  ) {
+    setInterval(() => this.flush(), this.FLUSH_INTERVAL);
+  }
+
+  async record(endpointId: string) {
+    await this.redis.multi().incr(countKey(endpointId)).sadd(PENDING_SET, endpointId).exec();
+  }
+
+  // Any API instance may flush: GET+DEL is atomic, so each count is added once
+  async flush() {
+    try {
+      const endpointIds = await this.redis.smembers(PENDING_SET);
+
+      for (const endpointId of endpointIds) {
+        await this.redis.srem(PENDING_SET, endpointId);
+        const result = await this.redis.multi().get(countKey(endpointId)).del(countKey(endpointId)).exec();
+        const count = Number(result?.[0]?.[1]) || 0;
+        if (count === 0) continue;
+
+        // The endpoint may have been deleted since
+        await this.prisma.endpoint.updateMany({
+          where: { id: endpointId },
+          data: { blockedCount: { increment: count } }
+        });
+      }
+    } catch (err) {
+      console.error('🔥 Blocked request counter flush failed:', err);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+// src/infrastructure/redis/RateLimiter.ts
+import { Redis } from 'ioredis';
+
+/**
+ * GCRA reservation, atomic across every worker process.
+ * KEYS[1] = limiter key (holds the "theoretical arrival time" in ms)
+ * ARGV[1] = emission interval (ms between requests)
+ * ARGV[2] = burst tolerance (ms - how far ahead of the schedule a request may go)
+ * Always takes the next slot and returns how many ms to wait for it (0 = send now).
+ * Uses Redis' clock so workers with skewed clocks agree (writing after TIME needs effects
+ * replication, the default since Redis 5 - no replicate_commands() call).
+ */
+const GCRA_RESERVE = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local interval = tonumber(ARGV[1])
+local tolerance = tonumber(ARGV[2])
+
+local tat = tonumber(redis.call('GET', KEYS[1]) or now)
+if tat < now then tat = now end
+
+local wait = tat - tolerance - now
+if wait < 0 then wait = 0 end
+
+local next_tat = tat + interval
+redis.call('SET', KEYS[1], next_tat, 'PX', math.ceil(next_tat - now + interval))
+return wait
+`;
+
+type GcraClient = Redis & {
+  gcraReserve(key: string, intervalMs: number, toleranceMs: number): Promise<number>;
+};
+
+/**
+ * Token-bucket style limiter (GCRA) for outbound deliveries.
+ * `reserve` books the caller a slot; callers that get a wait > 0 should come back
+ * then (the worker reschedules the job as delayed) without reserving again.
+ */
+export class RateLimiter {
+  private client: GcraClient;
+
+  constructor(redis: Redis) {
+    redis.defineCommand('gcraReserve', { numberOfKeys: 1, lua: GCRA_RESERVE });
+    this.client = redis as GcraClient;
+  }
+
+  // `perSecond` requests per second on average, up to `burst` back to back
+  async reserve(key: string, perSecond: number, burst = 1): Promise<number> {
+    const intervalMs = 1000 / perSecond;
+    const toleranceMs = intervalMs * (Math.max(burst, 1) - 1);
+    return Number(await this.client.gcraReserve(`ratelimit:${key}`, intervalMs, toleranceMs));
+  }
+}
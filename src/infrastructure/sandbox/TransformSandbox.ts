@@ -0,0 +1,115 @@
+// src/infrastructure/sandbox/TransformSandbox.ts
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { TransformError } from '../../core/errors/TransformError';
+import { TransformInput, TransformOutput, TransformSpec } from '../../utils/transform';
+
+const DEFAULT_TIMEOUT_MS = 1000;
+
+// Per-thread V8 heap caps: a transform blowing past them kills only its thread
+const RESOURCE_LIMITS = {
+  maxOldGenerationSizeMb: 64,
+  maxYoungGenerationSizeMb: 16,
+  codeRangeSizeMb: 16,
+  stackSizeMb: 4
+};
+
+/**
+ * Small pool of worker threads that run endpoint transforms.
+ * Each call gets a timeout (CPU) and runs under RESOURCE_LIMITS (memory); a thread that
+ * times out or crashes is terminated and replaced.
+ */
+export class TransformSandbox {
+  private idle: Worker[] = [];
+  private size = 0;
+  private waiting: ((thread: Worker) => void)[] = [];
+
+  constructor(
+    private poolSize = Number(process.env.TRANSFORM_POOL_SIZE) || 2,
+    private timeoutMs = Number(process.env.TRANSFORM_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS
+  ) {}
+
+  async run(spec: TransformSpec, input: TransformInput): Promise<TransformOutput> {
+    const thread = await this.acquire();
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        thread.off('message', onMessage);
+        thread.off('error', onError);
+        thread.off('exit', onExit);
+      };
+
+      const onMessage = (msg: any) => {
+        cleanup();
+        this.release(thread);
+        if (msg.error) reject(new TransformError(msg.error.code, msg.error.message));
+        else resolve(msg.output);
+      };
+
+      // ERR_WORKER_OUT_OF_MEMORY lands here
+      const onError = (err: Error) => {
+        cleanup();
+        this.discard(thread);
+        reject(new TransformError('LIMIT_EXCEEDED', `Transform sandbox crashed: ${err.message}`));
+      };
+
+      const onExit = () => {
+        cleanup();
+        this.discard(thread);
+        reject(new TransformError('LIMIT_EXCEEDED', 'Transform sandbox exited unexpectedly'));
+      };
+
+      const timer = setTimeout(() => {
+        cleanup();
+        this.discard(thread);
+        reject(new TransformError('TIMEOUT', `Transform took longer than ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+
+      thread.on('message', onMessage);
+      thread.on('error', onError);
+      thread.on('exit', onExit);
+      thread.postMessage({ spec, input });
+    });
+  }
+
+  async close() {
+    await Promise.all(this.idle.map(thread => thread.terminate()));
+    this.idle = [];
+  }
+
+  private acquire(): Promise<Worker> {
+    const thread = this.idle.pop();
+    if (thread) return Promise.resolve(thread);
+    if (this.size < this.poolSize) return Promise.resolve(this.spawn());
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private release(thread: Worker) {
+    const next = this.waiting.shift();
+    if (next) next(thread);
+    else this.idle.push(thread);
+  }
+
+  private discard(thread: Worker) {
+    this.size--;
+    thread.terminate().catch(() => undefined);
+
+    const next = this.waiting.shift();
+    if (next) next(this.spawn());
+  }
+
+  private spawn(): Worker {
+    this.size++;
+
+    // Under ts-node (npm run dev) the thread entry is still TypeScript
+    const isTs = __filename.endsWith('.ts');
+    const thread = new Worker(path.join(__dirname, `transformThread.${isTs ? 'ts' : 'js'}`), {
+      execArgv: isTs ? ['-r', 'ts-node/register/transpile-only'] : [],
+      resourceLimits: RESOURCE_LIMITS
+    });
+    thread.unref(); // Idle threads shouldn't keep the process alive
+    thread.on('error', () => undefined); // A thread dying while idle must not take the process down
+    return thread;
+  }
+}
@@ -0,0 +1,14 @@
+// src/infrastructure/sandbox/transformThread.ts
+// Runs inside a worker thread spawned by TransformSandbox (memory-capped, killed on timeout).
+import { parentPort } from 'worker_threads';
+import { applyTransform } from '../../utils/transform';
+import { TransformError } from '../../core/errors/TransformError';
+
+parentPort!.on('message', ({ spec, input }) => {
+  try {
+    parentPort!.postMessage({ output: applyTransform(spec, input) });
+  } catch (err: any) {
+    const code = err instanceof TransformError ? err.code : 'EVALUATION_FAILED';
+    parentPort!.postMessage({ error: { code, message: err.message } });
+  }
+});
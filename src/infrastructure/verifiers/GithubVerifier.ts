@@ -0,0 +1,25 @@
+import { HmacVerifier } from './HmacVerifier';
+
+// GitHub: X-Hub-Signature-256 = "sha256=" + hex(HMAC-SHA256(secret, rawBody))
+export class GithubVerifier extends HmacVerifier {
+  constructor() {
+    super({ header: 'x-hub-signature-256', algorithm: 'sha256', encoding: 'hex', prefix: 'sha256=' });
+  }
+
+  extractMetadata(payload: any, headers: any) {
+    return {
+      deliveryId: headers['x-github-delivery'],
+      event: headers['x-github-event']
+    };
+  }
+
+  extractDedupKey(payload: any, headers: any) {
+    return headers['x-github-delivery'];
+  }
+
+  // "pull_request.opened" when the event has an action, else just "push"
+  extractEventType(payload: any, headers: any) {
+    const event = headers['x-github-event'];
+    return event && payload?.action ? `${event}.${payload.action}` : event;
+  }
+}
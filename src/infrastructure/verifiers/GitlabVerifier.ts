@@ -0,0 +1,33 @@
+import crypto from 'crypto';
+import { IVerifier } from '../../core/interfaces/IVerifier';
+
+// GitLab doesn't sign payloads: it echoes the configured secret token in X-Gitlab-Token
+export class GitlabVerifier implements IVerifier {
+  verify(payload: any, headers: any, secret: string, rawBody: string | Buffer): boolean {
+    const token = headers['x-gitlab-token'];
+
+    if (!token || typeof token !== 'string') {
+      return false; // Header missing
+    }
+
+    const received = Buffer.from(token);
+    const expected = Buffer.from(secret);
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  }
+
+  extractMetadata(payload: any, headers: any) {
+    return {
+      eventUuid: headers['x-gitlab-event-uuid'],
+      event: headers['x-gitlab-event']
+    };
+  }
+
+  extractDedupKey(payload: any, headers: any) {
+    return headers['x-gitlab-event-uuid'];
+  }
+
+  // e.g. "Push Hook", "Merge Request Hook"
+  extractEventType(payload: any, headers: any) {
+    return headers['x-gitlab-event'];
+  }
+}
@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import { IngestionError } from '../../core/errors/IngestionError';
+import { IVerifier, VerificationContext } from '../../core/interfaces/IVerifier';
+
+export interface HmacVerifierConfig {
+  header: string;                          // Header carrying the signature, e.g. 'x-signature'
+  algorithm: 'sha1' | 'sha256' | 'sha512';
+  encoding: 'hex' | 'base64';
+  prefix?: string;                         // Stripped before comparing, e.g. 'sha256='
+  timestampHeader?: string;                // Enables replay protection when set
+  tolerance?: number;                      // Seconds (default 300)
+  template?: string;                       // Signed payload, e.g. '{timestamp}.{body}' (default '{body}')
+}
+
+const ALGORITHMS = ['sha1', 'sha256', 'sha512'];
+const ENCODINGS = ['hex', 'base64'];
+const DEFAULT_TOLERANCE = 300;
+
+/**
+ * Configurable HMAC verifier for providers that don't have a dedicated class.
+ * The shape of the signature is described per endpoint in `Endpoint.verifierConfig`.
+ */
+export class HmacVerifier implements IVerifier {
+  constructor(private config: HmacVerifierConfig) {}
+
+  // Returns an error message, or null when the config is usable
+  static validateConfig(value: unknown): string | null {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return 'verifierConfig is required for the hmac provider';
+    const config = value as Record<string, any>;
+    if (!config.header || typeof config.header !== 'string') return 'verifierConfig.header is required';
+    if (!ALGORITHMS.includes(config.algorithm)) return `verifierConfig.algorithm must be one of ${ALGORITHMS.join(', ')}`;
+    if (!ENCODINGS.includes(config.encoding)) return `verifierConfig.encoding must be one of ${ENCODINGS.join(', ')}`;
+    if (config.prefix !== undefined && typeof config.prefix !== 'string') return 'verifierConfig.prefix must be a string';
+    if (config.timestampHeader !== undefined && typeof config.timestampHeader !== 'string') {
+      return 'verifierConfig.timestampHeader must be a string';
+    }
+    if (config.tolerance !== undefined && !(Number(config.tolerance) > 0)) return 'verifierConfig.tolerance must be a positive number';
+    if (config.template !== undefined) {
+      if (typeof config.template !== 'string' || !config.template.includes('{body}')) {
+        return 'verifierConfig.template must contain {body}';
+      }
+      if (config.template.includes('{timestamp}') && !config.timestampHeader) {
+        return 'verifierConfig.template uses {timestamp} but no timestampHeader is set';
+      }
+    }
+    return null;
+  }
+
+  verify(payload: any, headers: any, secret: string, rawBody: string | Buffer, context?: VerificationContext): boolean {
+    const { header, algorithm, encoding, prefix, timestampHeader, template } = this.config;
+
+    // Node lower-cases incoming header names
+    const signatureHeader = headers[header.toLowerCase()];
+    if (!signatureHeader || typeof signatureHeader !== 'string') {
+      return false; // Header missing
+    }
+
+    let signature = signatureHeader.trim();
+    if (prefix) {
+      if (!signature.startsWith(prefix)) return false;
+      signature = signature.slice(prefix.length);
+    }
+    if (encoding === 'hex') signature = signature.toLowerCase();
+
+    // 1. Replay protection (only when the provider sends a timestamp)
+    let timestamp = '';
+    if (timestampHeader) {
+      timestamp = headers[timestampHeader.toLowerCase()];
+      if (!timestamp || typeof timestamp !== 'string') return false;
+
+      const tolerance = Number(this.config.tolerance) || DEFAULT_TOLERANCE;
+      const now = Math.floor((context?.receivedAt?.getTime() ?? Date.now()) / 1000);
+      const sentAt = parseInt(timestamp, 10);
+      if (isNaN(sentAt) || Math.abs(now - sentAt) > tolerance) {
+        console.warn('[Security] Webhook timestamp outside tolerance - possible Replay Attack');
+        throw new IngestionError('STALE_TIMESTAMP', 'Webhook timestamp outside tolerance');
+      }
+    }
+
+    // 2. Build the signed payload from the template
+    const body = rawBody.toString();
+    const signedPayload = (template || '{body}').replace(/\{(body|timestamp)\}/g, (_, key) =>
+      key === 'body' ? body : timestamp
+    );
+
+    // 3. Calculate HMAC
+    const calculatedSignature = crypto
+      .createHmac(algorithm, secret)
+      .update(signedPayload)
+      .digest(encoding);
+
+    // Use timingSafeEqual to prevent timing attacks
+    try {
+      return crypto.timingSafeEqual(
+        Buffer.from(signature),
+        Buffer.from(calculatedSignature)
+      );
+    } catch (e) {
+      return false; // Length mismatch
+    }
+  }
+}
@@ -0,0 +1,8 @@
+import { HmacVerifier } from './HmacVerifier';
+
+// Meta / WhatsApp: X-Hub-Signature-256 = "sha256=" + hex(HMAC-SHA256(appSecret, rawBody))
+export class MetaVerifier extends HmacVerifier {
+  constructor() {
+    super({ header: 'x-hub-signature-256', algorithm: 'sha256', encoding: 'hex', prefix: 'sha256=' });
+  }
+}
@@ -0,0 +1,25 @@
+import { HmacVerifier } from './HmacVerifier';
+
+// Shopify: X-Shopify-Hmac-Sha256 = base64(HMAC-SHA256(secret, rawBody))
+export class ShopifyVerifier extends HmacVerifier {
+  constructor() {
+    super({ header: 'x-shopify-hmac-sha256', algorithm: 'sha256', encoding: 'base64' });
+  }
+
+  extractMetadata(payload: any, headers: any) {
+    return {
+      webhookId: headers['x-shopify-webhook-id'],
+      topic: headers['x-shopify-topic'],
+      shopDomain: headers['x-shopify-shop-domain']
+    };
+  }
+
+  extractDedupKey(payload: any, headers: any) {
+    return headers['x-shopify-webhook-id'];
+  }
+
+  // Topic, e.g. "orders/create"
+  extractEventType(payload: any, headers: any) {
+    return headers['x-shopify-topic'];
+  }
+}
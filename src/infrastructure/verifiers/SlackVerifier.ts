@@ -0,0 +1,32 @@
+import { HmacVerifier } from './HmacVerifier';
+
+// Slack: X-Slack-Signature = "v0=" + hex(HMAC-SHA256(secret, "v0:{timestamp}:{rawBody}"))
+export class SlackVerifier extends HmacVerifier {
+  constructor() {
+    super({
+      header: 'x-slack-signature',
+      algorithm: 'sha256',
+      encoding: 'hex',
+      prefix: 'v0=',
+      timestampHeader: 'x-slack-request-timestamp',
+      tolerance: 300,
+      template: 'v0:{timestamp}:{body}'
+    });
+  }
+
+  extractMetadata(payload: any, headers: any) {
+    return {
+      eventId: payload?.event_id,
+      retryNum: headers['x-slack-retry-num']
+    };
+  }
+
+  extractDedupKey(payload: any, headers: any) {
+    return payload?.event_id;
+  }
+
+  // Events API callbacks wrap the real event: { type: 'event_callback', event: { type: 'message' } }
+  extractEventType(payload: any, headers: any) {
+    return payload?.event?.type ?? payload?.type;
+  }
+}
@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+import { IngestionError } from '../../core/errors/IngestionError';
+import { IVerifier, VerificationContext } from '../../core/interfaces/IVerifier';
+
+/**
+ * Standard Webhooks (https://www.standardwebhooks.com) / Svix scheme.
+ * Headers: webhook-id, webhook-timestamp, webhook-signature ("v1,<base64> v1,<base64>")
+ */
+export class StandardWebhooksVerifier implements IVerifier {
+  private readonly TOLERANCE = 300; // 5 minutes, in both directions
+
+  verify(payload: any, headers: any, secret: string, rawBody: string | Buffer, context?: VerificationContext): boolean {
+    const msgId = headers['webhook-id'];
+    const timestamp = headers['webhook-timestamp'];
+    const signatureHeader = headers['webhook-signature'];
+
+    if (typeof msgId !== 'string' || typeof timestamp !== 'string' || typeof signatureHeader !== 'string') {
+      return false; // Header missing
+    }
+
+    // 1. Reject stale (or future-dated) messages
+    const now = Math.floor((context?.receivedAt?.getTime() ?? Date.now()) / 1000);
+    const sentAt = parseInt(timestamp, 10);
+    if (isNaN(sentAt) || Math.abs(now - sentAt) > this.TOLERANCE) {
+      console.warn('[Security] Webhook timestamp outside tolerance - possible Replay Attack');
+      throw new IngestionError('STALE_TIMESTAMP', 'Webhook timestamp outside tolerance');
+    }
+
+    // 2. Secrets are base64, optionally prefixed with "whsec_"
+    const key = Buffer.from(secret.startsWith('whsec_') ? secret.slice(6) : secret, 'base64');
+
+    const signedPayload = `${msgId}.${timestamp}.${rawBody.toString()}`;
+    const expected = Buffer.from(
+      crypto.createHmac('sha256', key).update(signedPayload).digest('base64')
+    );
+
+    // 3. Any one of the listed v1 signatures may match (senders list several during rotation)
+    return signatureHeader.split(' ').some(entry => {
+      const [version, signature] = entry.split(',');
+      if (version !== 'v1' || !signature) return false;
+
+      const candidate = Buffer.from(signature);
+      return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+    });
+  }
+
+  extractMetadata(payload: any, headers: any) {
+    return { webhookId: headers['webhook-id'] };
+  }
+
+  extractDedupKey(payload: any, headers: any) {
+    return headers['webhook-id'];
+  }
+
+  extractEventType(payload: any, headers: any) {
+    return payload?.type;
+  }
+}
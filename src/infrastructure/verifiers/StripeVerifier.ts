@@ -1,36 +1,37 @@
 import crypto from 'crypto';
-import { IVerifier } from '../../core/interfaces/IVerifier';
+import { IngestionError } from '../../core/errors/IngestionError';
+import { IVerifier, VerificationContext } from '../../core/interfaces/IVerifier';
 
 export class StripeVerifier implements IVerifier {
-  verify(payload: any, headers: any, secret: string, rawBody: string | Buffer): boolean {
+  verify(payload: any, headers: any, secret: string, rawBody: string | Buffer, context?: VerificationContext): boolean {
     const signatureHeader = headers['stripe-signature'];
     
     if (!signatureHeader || typeof signatureHeader !== 'string') {
       return false; // Header missing
     }
 
-    // Stripe format: "t=123456789,v1=abcdef..."
+    // Stripe format: "t=123456789,v1=abcdef...,v1=012345..."
+    // While a secret is being rolled, Stripe sends one v1 entry per valid secret
     const parts = signatureHeader.split(',');
     const timestampPart = parts.find(p => p.startsWith('t='));
-    const signaturePart = parts.find(p => p.startsWith('v1='));
+    const signatures = parts.filter(p => p.startsWith('v1=')).map(p => p.split('=')[1]);
 
-    if (!timestampPart || !signaturePart) {
+    if (!timestampPart || signatures.length === 0) {
       return false; // Malformed header
     }
 
     const timestamp = timestampPart.split('=')[1];
-    const signature = signaturePart.split('=')[1];
 
     // 1. Define Tolerance (e.g., 5 minutes = 300 seconds)
     const TOLERANCE = 300; 
-    const now = Math.floor(Date.now() / 1000);
+    const now = Math.floor((context?.receivedAt?.getTime() ?? Date.now()) / 1000);
 
     const timestampTol = parseInt(timestampPart.split('=')[1], 10);
 
     // 2. Reject if too old
     if (now - timestampTol > TOLERANCE) {
       console.warn('[Security] Webhook timestamp too old - possible Replay Attack');
-      return false;
+      throw new IngestionError('STALE_TIMESTAMP', 'Webhook timestamp too old');
 }
 
     // Protection against Replay Attacks (Reject if older than 5 mins)
@@ -46,14 +47,24 @@ export class StripeVerifier implements IVerifier {
     const hmac = crypto.createHmac('sha256', secret);
     const calculatedSignature = hmac.update(signedPayload).digest('hex');
 
-    // Use timingSafeEqual to prevent timing attacks
-    try {
-      return crypto.timingSafeEqual(
-        Buffer.from(signature),
-        Buffer.from(calculatedSignature)
-      );
-    } catch (e) {
-      return false; // Length mismatch or other crypto error
-    }
+    // Use timingSafeEqual to prevent timing attacks (any v1 entry may match)
+    return signatures.some(signature => {
+      try {
+        return crypto.timingSafeEqual(
+          Buffer.from(signature),
+          Buffer.from(calculatedSignature)
+        );
+      } catch (e) {
+        return false; // Length mismatch or other crypto error
+      }
+    });
+  }
+
+  extractDedupKey(payload: any, headers: any) {
+    return payload?.id;
   }
-}
\ No newline at end of file
+
+  extractEventType(payload: any, headers: any) {
+    return payload?.type;
+  }
+}
@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import { IVerifier, VerificationContext } from '../../core/interfaces/IVerifier';
+
+export interface TwilioVerifierConfig {
+  baseUrl?: string; // Public origin Twilio calls, e.g. 'https://hooks.example.com'
+}
+
+/**
+ * Twilio: X-Twilio-Signature = base64(HMAC-SHA1(authToken, fullUrl + sorted form params)).
+ * The signature covers the exact public URL, so behind a proxy set `verifierConfig.baseUrl`.
+ * JSON requests instead carry a `bodySHA256` query param and only the URL is signed.
+ */
+export class TwilioVerifier implements IVerifier {
+  constructor(private config: TwilioVerifierConfig = {}) {}
+
+  verify(payload: any, headers: any, secret: string, rawBody: string | Buffer, context?: VerificationContext): boolean {
+    const signature = headers['x-twilio-signature'];
+
+    if (!signature || typeof signature !== 'string' || !context) {
+      return false; // Header missing (or we can't rebuild the URL)
+    }
+
+    const baseUrl = this.config.baseUrl
+      || `${headers['x-forwarded-proto'] || 'https'}://${headers['x-forwarded-host'] || headers['host']}`;
+    const url = baseUrl.replace(/\/+$/, '') + context.url;
+    const body = rawBody.toString();
+
+    // 1. Build the signed string
+    let signedPayload = url;
+    const bodyHash = new URL(url).searchParams.get('bodySHA256');
+
+    if (bodyHash) {
+      // JSON body: the URL carries a hash of the body instead
+      const actualHash = crypto.createHash('sha256').update(body).digest('hex');
+      if (actualHash !== bodyHash) return false;
+    } else {
+      // Form body: append each param as key+value, sorted by key
+      const params = Array.from(new URLSearchParams(body).entries())
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+      signedPayload += params.map(([key, value]) => key + value).join('');
+    }
+
+    // 2. Calculate HMAC
+    const expected = Buffer.from(
+      crypto.createHmac('sha1', secret).update(signedPayload).digest('base64')
+    );
+    const received = Buffer.from(signature);
+
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  }
+
+  extractMetadata(payload: any, headers: any) {
+    return {
+      idempotencyToken: headers['i-twilio-idempotency-token'],
+      sid: payload?.MessageSid || payload?.CallSid
+    };
+  }
+
+  extractDedupKey(payload: any, headers: any) {
+    return headers['i-twilio-idempotency-token'];
+  }
+}
@@ -1,19 +1,52 @@
 import { IVerifier } from '../../core/interfaces/IVerifier';
 import { StripeVerifier } from './StripeVerifier';
+import { HmacVerifier } from './HmacVerifier';
+import { StandardWebhooksVerifier } from './StandardWebhooksVerifier';
+import { GithubVerifier } from './GithubVerifier';
+import { GitlabVerifier } from './GitlabVerifier';
+import { ShopifyVerifier } from './ShopifyVerifier';
+import { SlackVerifier } from './SlackVerifier';
+import { TwilioVerifier } from './TwilioVerifier';
+import { MetaVerifier } from './MetaVerifier';
+import { ZoomVerifier } from './ZoomVerifier';
 
 // A simple "Null Object" verifier for Generic endpoints that always passes
 class GenericVerifier implements IVerifier {
-  verify() { return true; } 
+  verify() { return true; }
 }
 
 export class VerifierFactory {
-  static getVerifier(provider: string): IVerifier {
+  // Endpoint.provider is stored the way getVerifier matches it ('HMAC ' -> 'hmac')
+  static normalizeProvider(provider: unknown): string | undefined {
+    return typeof provider === 'string' && provider.trim() ? provider.trim().toLowerCase() : undefined;
+  }
+
+  // `config` is the endpoint's verifierConfig (only used by configurable providers)
+  static getVerifier(provider: string, config?: any): IVerifier {
     switch (provider.toLowerCase()) {
-      case 'stripe': 
+      case 'stripe':
         return new StripeVerifier();
-      // case 'shopify': return new ShopifyVerifier();
-      default: 
+      case 'standard-webhooks':
+        return new StandardWebhooksVerifier();
+      case 'hmac':
+        return new HmacVerifier(config);
+      case 'github':
+        return new GithubVerifier();
+      case 'gitlab':
+        return new GitlabVerifier();
+      case 'shopify':
+        return new ShopifyVerifier();
+      case 'slack':
+        return new SlackVerifier();
+      case 'twilio':
+        return new TwilioVerifier(config || {});
+      case 'meta':
+      case 'whatsapp':
+        return new MetaVerifier();
+      case 'zoom':
+        return new ZoomVerifier();
+      default:
         return new GenericVerifier();
     }
   }
-}
\ No newline at end of file
+}
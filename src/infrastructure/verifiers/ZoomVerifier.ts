@@ -0,0 +1,24 @@
+import { HmacVerifier } from './HmacVerifier';
+
+// Zoom: x-zm-signature = "v0=" + hex(HMAC-SHA256(secretToken, "v0:{timestamp}:{rawBody}"))
+export class ZoomVerifier extends HmacVerifier {
+  constructor() {
+    super({
+      header: 'x-zm-signature',
+      algorithm: 'sha256',
+      encoding: 'hex',
+      prefix: 'v0=',
+      timestampHeader: 'x-zm-request-timestamp',
+      tolerance: 300,
+      template: 'v0:{timestamp}:{body}'
+    });
+  }
+
+  extractMetadata(payload: any, headers: any) {
+    return { event: payload?.event };
+  }
+
+  extractEventType(payload: any, headers: any) {
+    return payload?.event;
+  }
+}
@@ -1,6 +1,8 @@
 import { PrismaClient } from '@prisma/client';
 import cron from 'node-cron';
 
+const QUARANTINE_RETENTION_DAYS = 30;
+
 export class CleanupService {
   private prisma: PrismaClient;
 
@@ -26,6 +28,15 @@ export class CleanupService {
     cutoffDate.setDate(cutoffDate.getDate() - RETENTION_DAYS);
 
     try {
+      // 0. Drop quarantined requests past their retention (promoted ones too - the event lives on)
+      const quarantineCutoff = new Date();
+      quarantineCutoff.setDate(quarantineCutoff.getDate() - QUARANTINE_RETENTION_DAYS);
+
+      const purged = await this.prisma.quarantinedRequest.deleteMany({
+        where: { receivedAt: { lt: quarantineCutoff } }
+      });
+      if (purged.count > 0) console.log(`🗑️ Purged ${purged.count} quarantined requests.`);
+
       // 1. Group by Endpoint to get counts BEFORE deleting
       // We only target 'COMPLETED' events (Success tags)
       const eventsToArchive = await this.prisma.webhookEvent.groupBy({
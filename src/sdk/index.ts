@@ -0,0 +1,9 @@
+// src/sdk/index.ts
+// Package entry for consumer services: verify that a delivery really came from the webhook buffer.
+//
+//   import { verifyDelivery } from 'webhook-retry';
+//   if (!verifyDelivery(process.env.WEBHOOK_SIGNING_SECRET!, req.rawBody, req.headers)) return res.status(401).end();
+//
+// Pass the exact request bytes, not a re-serialized JSON body.
+export { verifyDelivery, DEFAULT_SIGNATURE_TOLERANCE } from '../utils/outboundSignature';
+export type { SigningConfig } from '../utils/outboundSignature';
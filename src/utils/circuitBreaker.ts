@@ -0,0 +1,52 @@
+// src/utils/circuitBreaker.ts
+
+// When a destination's breaker trips (Endpoint.circuitBreaker). Either condition opens it.
+// Opt-in: endpoints without a circuitBreaker config never trip.
+export interface CircuitBreakerConfig {
+  enabled?: boolean;
+  failureThreshold?: number; // Consecutive failures
+  failureRate?: number;      // 0-1, share of failed attempts within windowMs...
+  minRequests?: number;      // ...once the window has seen at least this many
+  windowMs?: number;
+  cooldownMs?: number;       // Open this long before a probe delivery is let through
+}
+
+export const DEFAULT_CIRCUIT_BREAKER: Required<CircuitBreakerConfig> = {
+  enabled: false,
+  failureThreshold: 20,
+  failureRate: 0.5,
+  minRequests: 50,
+  windowMs: 5 * 60 * 1000,
+  cooldownMs: 60 * 1000
+};
+
+// Returns an error message, or null when the config is usable
+export function validateCircuitBreakerConfig(config: any): string | null {
+  if (config === null || config === undefined) return null;
+  if (typeof config !== 'object' || Array.isArray(config)) return 'circuitBreaker must be an object';
+  if (config.enabled !== undefined && typeof config.enabled !== 'boolean') return 'circuitBreaker.enabled must be a boolean';
+
+  for (const field of ['failureThreshold', 'minRequests']) {
+    if (config[field] !== undefined && !(Number.isInteger(Number(config[field])) && Number(config[field]) >= 1)) {
+      return `circuitBreaker.${field} must be a positive integer`;
+    }
+  }
+  if (config.failureRate !== undefined && !(Number(config.failureRate) > 0 && Number(config.failureRate) <= 1)) {
+    return 'circuitBreaker.failureRate must be between 0 and 1';
+  }
+  for (const field of ['windowMs', 'cooldownMs']) {
+    if (config[field] !== undefined && !(Number(config[field]) >= 1000)) return `circuitBreaker.${field} must be at least 1000`;
+  }
+  return null;
+}
+
+export function resolveCircuitBreakerConfig(config?: CircuitBreakerConfig | null): Required<CircuitBreakerConfig> {
+  return {
+    enabled: config ? (config.enabled ?? true) : DEFAULT_CIRCUIT_BREAKER.enabled, // Configuring it turns it on
+    failureThreshold: Number(config?.failureThreshold) || DEFAULT_CIRCUIT_BREAKER.failureThreshold,
+    failureRate: Number(config?.failureRate) || DEFAULT_CIRCUIT_BREAKER.failureRate,
+    minRequests: Number(config?.minRequests) || DEFAULT_CIRCUIT_BREAKER.minRequests,
+    windowMs: Number(config?.windowMs) || DEFAULT_CIRCUIT_BREAKER.windowMs,
+    cooldownMs: Number(config?.cooldownMs) || DEFAULT_CIRCUIT_BREAKER.cooldownMs
+  };
+}
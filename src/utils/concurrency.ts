@@ -0,0 +1,55 @@
+// src/utils/concurrency.ts
+
+/**
+ * Requests in flight to one destination, across all workers (Destination.concurrency).
+ *   { "max": 10 }                                          - fixed cap
+ *   { "max": 20, "adaptive": true, "targetLatencyMs": 800 } - AIMD between min and max
+ * Adaptive mode adds one slot per "window" of healthy responses and cuts the limit
+ * when responses fail (x0.5) or are slower than targetLatencyMs (x0.8).
+ */
+export interface ConcurrencyConfig {
+  max?: number;
+  adaptive?: boolean;
+  min?: number;
+  targetLatencyMs?: number;
+}
+
+export const DEFAULT_CONCURRENCY = { min: 1, targetLatencyMs: 1000 };
+
+const MAX_IN_FLIGHT = 1000;
+
+// A job that finds its destination full waits 0.5-1s, then twice as long each time it's full again (up to 30-60s)
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 30 * 1000;
+
+export function concurrencyRetryDelayMs(waits: number): number {
+  const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.min(waits, 16));
+  return delay + Math.floor(Math.random() * delay);
+}
+
+// Returns an error message, or null when the config is usable
+export function validateConcurrencyConfig(config: any): string | null {
+  if (config === null || config === undefined) return null;
+  if (typeof config !== 'object' || Array.isArray(config)) return 'concurrency must be an object';
+
+  const isCount = (v: any) => Number.isInteger(Number(v)) && Number(v) >= 1 && Number(v) <= MAX_IN_FLIGHT;
+  if (!isCount(config.max)) return `concurrency.max must be an integer between 1 and ${MAX_IN_FLIGHT}`;
+  if (config.min !== undefined && !isCount(config.min)) return `concurrency.min must be an integer between 1 and ${MAX_IN_FLIGHT}`;
+  if (config.min !== undefined && Number(config.min) > Number(config.max)) return 'concurrency.min must not exceed concurrency.max';
+  if (config.adaptive !== undefined && typeof config.adaptive !== 'boolean') return 'concurrency.adaptive must be a boolean';
+  if (config.targetLatencyMs !== undefined && !(Number(config.targetLatencyMs) >= 10)) {
+    return 'concurrency.targetLatencyMs must be at least 10';
+  }
+  return null;
+}
+
+// null: no in-flight cap
+export function resolveConcurrencyConfig(config?: ConcurrencyConfig | null): Required<ConcurrencyConfig> | null {
+  if (!config?.max) return null;
+  return {
+    max: Number(config.max),
+    adaptive: config.adaptive === true,
+    min: Math.min(Number(config.min) || DEFAULT_CONCURRENCY.min, Number(config.max)),
+    targetLatencyMs: Number(config.targetLatencyMs) || DEFAULT_CONCURRENCY.targetLatencyMs
+  };
+}
@@ -0,0 +1,49 @@
+// src/utils/dedupKey.ts
+import { IVerifier } from '../core/interfaces/IVerifier';
+import { getByPath } from './jsonPath';
+
+export interface DedupConfig {
+  enabled?: boolean;      // Default true
+  header?: string;        // Take the key from this header...
+  jsonPath?: string;      // ...or from this payload field, e.g. 'data.id'
+  windowSeconds?: number; // How long Redis remembers a key (default 24h)
+}
+
+export const DEFAULT_DEDUP_WINDOW = 24 * 3600;
+
+// Returns an error message, or null when the config is usable
+export function validateDedupConfig(config: any): string | null {
+  if (config === null || config === undefined) return null;
+  if (typeof config !== 'object') return 'dedupConfig must be an object';
+  if (config.header !== undefined && (typeof config.header !== 'string' || !config.header)) {
+    return 'dedupConfig.header must be a non-empty string';
+  }
+  if (config.jsonPath !== undefined && (typeof config.jsonPath !== 'string' || !config.jsonPath)) {
+    return 'dedupConfig.jsonPath must be a non-empty string';
+  }
+  if (config.header && config.jsonPath) return 'Use either dedupConfig.header or dedupConfig.jsonPath, not both';
+  if (config.windowSeconds !== undefined && !(Number(config.windowSeconds) > 0)) {
+    return 'dedupConfig.windowSeconds must be a positive number';
+  }
+  return null;
+}
+
+/**
+ * Picks the idempotency key for an inbound event:
+ * configured header > configured JSON path > the provider's own delivery ID (via the verifier).
+ */
+export function extractDedupKey(config: DedupConfig | null | undefined, verifier: IVerifier, payload: any, headers: any): string | undefined {
+  if (config?.enabled === false) return undefined;
+
+  let key: any;
+  if (config?.header) {
+    key = headers[config.header.toLowerCase()];
+  } else if (config?.jsonPath) {
+    key = getByPath(payload, config.jsonPath);
+  } else if (verifier.extractDedupKey) {
+    key = verifier.extractDedupKey(payload, headers);
+  }
+
+  if (key === undefined || key === null || key === '' || typeof key === 'object') return undefined;
+  return String(key).slice(0, 255);
+}
@@ -0,0 +1,44 @@
+// src/utils/deliveryError.ts
+import { AttemptErrorClass } from '@prisma/client';
+import { DeliveryResponseError } from '../core/errors/DeliveryResponseError';
+import { TransformError } from '../core/errors/TransformError';
+
+export interface DeliveryErrorInfo {
+  errorClass: AttemptErrorClass;
+  errorCode: string;    // The raw code (ENOTFOUND, CERT_HAS_EXPIRED...) or HTTP_<status>
+  errorMessage: string;
+}
+
+const DNS_CODES = ['ENOTFOUND', 'EAI_AGAIN', 'EAI_FAIL', 'EAI_NODATA', 'EAI_NONAME'];
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ESOCKETTIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT'];
+// Node's / OpenSSL's certificate and handshake codes that don't start with ERR_TLS_ / ERR_SSL_
+const TLS_CODES = [
+  'EPROTO', 'CERT_HAS_EXPIRED', 'CERT_NOT_YET_VALID', 'CERT_REVOKED', 'CERT_UNTRUSTED', 'CERT_REJECTED',
+  'DEPTH_ZERO_SELF_SIGNED_CERT', 'SELF_SIGNED_CERT_IN_CHAIN', 'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'UNABLE_TO_GET_ISSUER_CERT', 'UNABLE_TO_GET_ISSUER_CERT_LOCALLY', 'HOSTNAME_MISMATCH'
+];
+
+/**
+ * Normalizes why a delivery attempt failed, so a DNS typo, an expired certificate, a slow
+ * target and a real 500 don't all look the same in the attempt log.
+ */
+export function classifyDeliveryError(error: any): DeliveryErrorInfo {
+  const errorMessage = String(error?.message || error);
+
+  if (error instanceof DeliveryResponseError) {
+    return { errorClass: 'HTTP', errorCode: `HTTP_${error.status}`, errorMessage };
+  }
+  if (error instanceof TransformError) {
+    return { errorClass: 'TRANSFORM', errorCode: error.code, errorMessage };
+  }
+
+  // axios copies the socket error's code; older versions leave it on the cause
+  const errorCode = String(error?.code || error?.cause?.code || 'UNKNOWN');
+
+  if (DNS_CODES.includes(errorCode)) return { errorClass: 'DNS', errorCode, errorMessage };
+  if (errorCode === 'ECONNREFUSED') return { errorClass: 'CONNECTION_REFUSED', errorCode, errorMessage };
+  if (TIMEOUT_CODES.includes(errorCode) || /timeout/i.test(errorMessage)) return { errorClass: 'TIMEOUT', errorCode, errorMessage };
+  if (TLS_CODES.includes(errorCode) || /^ERR_(TLS|SSL)_/.test(errorCode)) return { errorClass: 'TLS', errorCode, errorMessage };
+
+  return { errorClass: 'NETWORK', errorCode, errorMessage };
+}
@@ -0,0 +1,58 @@
+// src/utils/failover.ts
+
+// When a destination gives up on its current URL and moves to the next fallback (Destination.failoverPolicy)
+export interface FailoverPolicy {
+  afterFailures?: number;   // Consecutive retriable failures on the active URL
+  afterMs?: number;         // ...or this long since its first failure in the streak
+  probeIntervalMs?: number; // While failed over, how often one delivery re-tries the primary
+}
+
+export const DEFAULT_FAILOVER_POLICY: Required<FailoverPolicy> = {
+  afterFailures: 5,
+  afterMs: 10 * 60 * 1000,
+  probeIntervalMs: 60 * 1000
+};
+
+const MAX_FALLBACK_URLS = 5;
+
+// Returns an error message, or null when the list is usable
+export function validateFallbackUrls(urls: any, primary?: string): string | null {
+  if (urls === null || urls === undefined) return null;
+  if (!Array.isArray(urls)) return 'fallbackUrls must be an array of URLs';
+  if (urls.length > MAX_FALLBACK_URLS) return `fallbackUrls can hold at most ${MAX_FALLBACK_URLS} URLs`;
+
+  for (const url of urls) {
+    try {
+      const { protocol } = new URL(url);
+      if (protocol !== 'http:' && protocol !== 'https:') return 'fallbackUrls must be http(s)';
+    } catch (e) {
+      return `Invalid fallback url: ${url}`;
+    }
+  }
+  if (primary && urls.includes(primary)) return 'fallbackUrls must not repeat the primary url';
+  if (new Set(urls).size !== urls.length) return 'fallbackUrls must not contain duplicates';
+  return null;
+}
+
+export function validateFailoverPolicy(policy: any): string | null {
+  if (policy === null || policy === undefined) return null;
+  if (typeof policy !== 'object') return 'failoverPolicy must be an object';
+  if (policy.afterFailures !== undefined && !(Number.isInteger(Number(policy.afterFailures)) && Number(policy.afterFailures) >= 1)) {
+    return 'failoverPolicy.afterFailures must be a positive integer';
+  }
+  if (policy.afterMs !== undefined && !(Number(policy.afterMs) >= 1000)) {
+    return 'failoverPolicy.afterMs must be at least 1000';
+  }
+  if (policy.probeIntervalMs !== undefined && !(Number(policy.probeIntervalMs) >= 1000)) {
+    return 'failoverPolicy.probeIntervalMs must be at least 1000';
+  }
+  return null;
+}
+
+export function resolveFailoverPolicy(policy?: FailoverPolicy | null): Required<FailoverPolicy> {
+  return {
+    afterFailures: Number(policy?.afterFailures) || DEFAULT_FAILOVER_POLICY.afterFailures,
+    afterMs: Number(policy?.afterMs) || DEFAULT_FAILOVER_POLICY.afterMs,
+    probeIntervalMs: Number(policy?.probeIntervalMs) || DEFAULT_FAILOVER_POLICY.probeIntervalMs
+  };
+}
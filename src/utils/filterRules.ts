@@ -0,0 +1,171 @@
+// src/utils/filterRules.ts
+import safeRegex from 'safe-regex2';
+import { IVerifier } from '../core/interfaces/IVerifier';
+import { getByPath } from './jsonPath';
+
+export type FilterOp =
+  | 'eq' | 'neq' | 'in' | 'nin' | 'exists'
+  | 'contains' | 'startsWith' | 'glob' | 'regex'
+  | 'gt' | 'gte' | 'lt' | 'lte';
+
+/**
+ * Routing rules (Endpoint.filterRules / Destination.filterRules). Examples:
+ *   { eventType: 'invoice.*' }
+ *   { path: 'data.object.metadata.tenant', op: 'eq', value: 'acme' }
+ *   { all: [{ eventType: ['invoice.*', 'charge.*'] }, { not: { header: 'x-test', op: 'exists' } }] }
+ * A top-level array means "any of these".
+ */
+export type FilterRule =
+  | { all: FilterRule[] }
+  | { any: FilterRule[] }
+  | { not: FilterRule }
+  | { eventType: string | string[] }                // Glob(s): '*' matches anything
+  | { header: string; op?: FilterOp; value?: any }  // op defaults to 'eq'
+  | { path: string; op?: FilterOp; value?: any };   // JSON path into the parsed payload
+
+export type FilterRules = FilterRule | FilterRule[];
+
+export interface FilterContext {
+  headers: Record<string, any>;
+  payload: any;
+  eventType?: string;
+}
+
+const OPS: FilterOp[] = ['eq', 'neq', 'in', 'nin', 'exists', 'contains', 'startsWith', 'glob', 'regex', 'gt', 'gte', 'lt', 'lte'];
+const MAX_DEPTH = 8;
+const MAX_NODES = 100;
+
+// Owner-supplied patterns run against sender-controlled values on the ingest path, so patterns
+// that can backtrack catastrophically (nested quantifiers like (a+)+) are refused
+const regexCache = new Map<string, RegExp | null>();
+const MAX_CACHED_REGEXES = 1000;
+
+// Provider event type if the verifier knows it, else the usual payload fields
+export function resolveEventType(verifier: IVerifier, payload: any, headers: any): string | undefined {
+  const fromVerifier = verifier.extractEventType ? verifier.extractEventType(payload, headers) : undefined;
+  if (typeof fromVerifier === 'string') return fromVerifier;
+
+  const candidates = [payload?.type, payload?.event_type, payload?.event];
+  return candidates.find((c): c is string => typeof c === 'string');
+}
+
+// Returns an error message, or null when the rules are usable
+export function validateFilterRules(rules: any, field = 'filterRules'): string | null {
+  if (rules === null || rules === undefined) return null;
+
+  let nodes = 0;
+  const check = (rule: any, path: string, depth: number): string | null => {
+    if (++nodes > MAX_NODES) return `${field} has more than ${MAX_NODES} rules`;
+    if (depth > MAX_DEPTH) return `${field} is nested deeper than ${MAX_DEPTH} levels`;
+
+    if (Array.isArray(rule)) rule = { any: rule };
+    if (!rule || typeof rule !== 'object') return `${path} must be an object`;
+
+    if ('all' in rule || 'any' in rule) {
+      const list = rule.all ?? rule.any;
+      if (!Array.isArray(list) || list.length === 0) return `${path}.${'all' in rule ? 'all' : 'any'} must be a non-empty array`;
+      for (let i = 0; i < list.length; i++) {
+        const error = check(list[i], `${path}[${i}]`, depth + 1);
+        if (error) return error;
+      }
+      return null;
+    }
+
+    if ('not' in rule) return check(rule.not, `${path}.not`, depth + 1);
+
+    if ('eventType' in rule) {
+      const patterns = Array.isArray(rule.eventType) ? rule.eventType : [rule.eventType];
+      if (patterns.length === 0 || patterns.some((p: any) => typeof p !== 'string' || !p)) {
+        return `${path}.eventType must be a string or an array of strings`;
+      }
+      return null;
+    }
+
+    const target = 'header' in rule ? 'header' : ('path' in rule ? 'path' : null);
+    if (!target) return `${path} needs one of all, any, not, eventType, header or path`;
+    if (typeof rule[target] !== 'string' || !rule[target]) return `${path}.${target} must be a non-empty string`;
+
+    const op = rule.op ?? 'eq';
+    if (!OPS.includes(op)) return `${path}.op must be one of ${OPS.join(', ')}`;
+    if ((op === 'in' || op === 'nin') && !Array.isArray(rule.value)) return `${path}.value must be an array for '${op}'`;
+    if (op !== 'exists' && rule.value === undefined) return `${path}.value is required for '${op}'`;
+    if (op === 'regex') {
+      if (typeof rule.value !== 'string' || rule.value.length > 200) return `${path}.value must be a regex of at most 200 characters`;
+      try {
+        new RegExp(rule.value);
+      } catch (e) {
+        return `${path}.value is not a valid regex`;
+      }
+      if (!safeRegex(rule.value)) return `${path}.value may backtrack catastrophically (nested quantifiers)`;
+    }
+    return null;
+  };
+
+  return check(rules, field, 0);
+}
+
+// No rules means everything matches
+export function matchesFilter(rules: FilterRules | null | undefined, ctx: FilterContext): boolean {
+  if (rules === null || rules === undefined) return true;
+  if (Array.isArray(rules)) return rules.some(rule => matchesFilter(rule, ctx));
+
+  if ('all' in rules) return rules.all.every(rule => matchesFilter(rule, ctx));
+  if ('any' in rules) return rules.any.some(rule => matchesFilter(rule, ctx));
+  if ('not' in rules) return !matchesFilter(rules.not, ctx);
+
+  if ('eventType' in rules) {
+    if (!ctx.eventType) return false;
+    const patterns = Array.isArray(rules.eventType) ? rules.eventType : [rules.eventType];
+    return patterns.some(pattern => globToRegex(pattern).test(ctx.eventType!));
+  }
+
+  if ('header' in rules) {
+    const value = ctx.headers[rules.header.toLowerCase()];
+    // Headers are strings, so compare against the rule value as a string too
+    return compare(value, rules.op ?? 'eq', rules.value, true);
+  }
+
+  // Binary bodies have no JSON to look into
+  const payload = Buffer.isBuffer(ctx.payload) ? undefined : ctx.payload;
+  return compare(getByPath(payload, rules.path), rules.op ?? 'eq', rules.value, false);
+}
+
+function compare(actual: any, op: FilterOp, expected: any, asString: boolean): boolean {
+  if (op === 'exists') return (actual !== undefined && actual !== null) === (expected ?? true);
+  if (actual === undefined || actual === null) return op === 'neq' || op === 'nin';
+
+  const same = (a: any, b: any) => asString ? String(a) === String(b) : a === b;
+
+  switch (op) {
+    case 'eq': return same(actual, expected);
+    case 'neq': return !same(actual, expected);
+    case 'in': return expected.some((v: any) => same(actual, v));
+    case 'nin': return !expected.some((v: any) => same(actual, v));
+    case 'contains':
+      return Array.isArray(actual) ? actual.some(v => same(v, expected)) : String(actual).includes(String(expected));
+    case 'startsWith': return String(actual).startsWith(String(expected));
+    case 'glob': return globToRegex(String(expected)).test(String(actual));
+    case 'regex': return compileSafeRegex(String(expected))?.test(String(actual)) ?? false;
+    case 'gt': return Number(actual) > Number(expected);
+    case 'gte': return Number(actual) >= Number(expected);
+    case 'lt': return Number(actual) < Number(expected);
+    case 'lte': return Number(actual) <= Number(expected);
+  }
+}
+
+// null for patterns saved before they were checked that turn out unsafe: those never match
+function compileSafeRegex(pattern: string): RegExp | null {
+  let regex = regexCache.get(pattern);
+  if (regex === undefined) {
+    regex = safeRegex(pattern) ? new RegExp(pattern) : null;
+    if (regexCache.size >= MAX_CACHED_REGEXES) regexCache.clear();
+    regexCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+// 'invoice.*' -> /^invoice\..*$/
+function globToRegex(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
@@ -0,0 +1,161 @@
+// src/utils/inboundAccess.ts
+import crypto from 'crypto';
+import ipaddr from 'ipaddr.js';
+import { safeEqual } from './safeEqual';
+
+export interface InboundAccessRules {
+  allowedCidrs?: string[];   // e.g. ['203.0.113.0/24', '2001:db8::/32']
+  presets?: string[];        // Published provider ranges, see IP_PRESETS
+  bearerToken?: string;      // Requires "Authorization: Bearer <token>"
+  basicAuth?: { username: string; password: string };
+}
+
+// What the /hooks config cache holds: credentials only as SHA-256 hashes
+export interface HashedAccessRules {
+  allowedCidrs?: string[];
+  presets?: string[];
+  bearerTokenHash?: string;
+  basicAuthHash?: string;    // Of the base64 "username:password" the Authorization header carries
+}
+
+export type AccessDecision =
+  | { allowed: true }
+  | { allowed: false; status: 401 | 403; reason: string };
+
+// Published source ranges. These change occasionally - keep in sync with:
+//   Stripe: https://stripe.com/files/ips/ips_webhooks.txt
+//   GitHub: https://api.github.com/meta ("hooks")
+export const IP_PRESETS: Record<string, string[]> = {
+  stripe: [
+    '3.18.12.63/32', '3.130.192.231/32', '13.235.14.237/32', '13.235.122.149/32',
+    '18.211.135.69/32', '35.154.171.200/32', '52.15.183.38/32', '54.88.130.119/32',
+    '54.88.130.237/32', '54.187.174.169/32', '54.187.205.235/32', '54.187.216.72/32'
+  ],
+  github: [
+    '192.30.252.0/22', '185.199.108.0/22', '140.82.112.0/20', '143.55.64.0/20',
+    '2a0a:a440::/29', '2606:50c0::/32'
+  ]
+};
+
+// Returns an error message, or null when the rules are usable
+export function validateAccessRules(rules: any): string | null {
+  if (rules === null || rules === undefined) return null;
+  if (typeof rules !== 'object') return 'accessControl must be an object';
+
+  if (rules.allowedCidrs !== undefined) {
+    if (!Array.isArray(rules.allowedCidrs)) return 'accessControl.allowedCidrs must be an array';
+    const invalid = rules.allowedCidrs.find((cidr: any) => !isValidCidr(cidr));
+    if (invalid !== undefined) return `Invalid CIDR: ${invalid}`;
+  }
+
+  if (rules.presets !== undefined) {
+    if (!Array.isArray(rules.presets)) return 'accessControl.presets must be an array';
+    const unknown = rules.presets.find((p: any) => !IP_PRESETS[p]);
+    if (unknown !== undefined) return `Unknown preset: ${unknown} (available: ${Object.keys(IP_PRESETS).join(', ')})`;
+  }
+
+  if (rules.bearerToken !== undefined && (typeof rules.bearerToken !== 'string' || !rules.bearerToken)) {
+    return 'accessControl.bearerToken must be a non-empty string';
+  }
+
+  if (rules.basicAuth !== undefined) {
+    const { username, password } = rules.basicAuth || {};
+    if (typeof username !== 'string' || typeof password !== 'string' || !username) {
+      return 'accessControl.basicAuth needs a username and password';
+    }
+  }
+
+  if (rules.bearerToken && rules.basicAuth) return 'Use either bearerToken or basicAuth, not both';
+
+  return null;
+}
+
+// Replaces the stored credentials with hashes, so they never sit in Redis in plaintext
+export function hashAccessRules(rules: InboundAccessRules | null | undefined): HashedAccessRules | null {
+  if (!rules) return null;
+  const { allowedCidrs, presets, bearerToken, basicAuth } = rules;
+  return {
+    allowedCidrs,
+    presets,
+    bearerTokenHash: bearerToken ? hashCredential(bearerToken) : undefined,
+    basicAuthHash: basicAuth
+      ? hashCredential(Buffer.from(`${basicAuth.username}:${basicAuth.password}`).toString('base64'))
+      : undefined
+  };
+}
+
+/**
+ * Checks an inbound /hooks request against the endpoint's rules (see hashAccessRules).
+ * `ip` should be the client address after trusted-proxy resolution (Fastify's request.ip).
+ */
+export function checkInboundAccess(rules: HashedAccessRules | null | undefined, ip: string, headers: any): AccessDecision {
+  if (!rules) return { allowed: true };
+
+  // 1. Source IP allowlist (explicit CIDRs + presets)
+  const ranges = [
+    ...(rules.allowedCidrs || []),
+    ...(rules.presets || []).flatMap(p => IP_PRESETS[p] || [])
+  ];
+
+  if (ranges.length > 0 && !ipInRanges(ip, ranges)) {
+    return { allowed: false, status: 403, reason: `Source IP ${ip} not allowed` };
+  }
+
+  // 2. Static credentials
+  const authHeader = typeof headers['authorization'] === 'string' ? headers['authorization'] : '';
+
+  if (rules.bearerTokenHash) {
+    const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : '';
+    if (!safeEqual(hashCredential(token), rules.bearerTokenHash)) {
+      return { allowed: false, status: 401, reason: 'Invalid or missing bearer token' };
+    }
+  }
+
+  if (rules.basicAuthHash) {
+    const encoded = authHeader.startsWith('Basic ') ? authHeader.slice(6) : '';
+    if (!safeEqual(hashCredential(encoded), rules.basicAuthHash)) {
+      return { allowed: false, status: 401, reason: 'Invalid or missing basic auth credentials' };
+    }
+  }
+
+  return { allowed: true };
+}
+
+function hashCredential(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+// Accepts "1.2.3.0/24" or a bare address (treated as a single host)
+function parseRange(cidr: string): [ipaddr.IPv4 | ipaddr.IPv6, number] {
+  if (cidr.includes('/')) return ipaddr.parseCIDR(cidr);
+  const address = ipaddr.parse(cidr);
+  return [address, address.kind() === 'ipv4' ? 32 : 128];
+}
+
+function isValidCidr(cidr: any): boolean {
+  if (typeof cidr !== 'string') return false;
+  try {
+    parseRange(cidr);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+function ipInRanges(ip: string, ranges: string[]): boolean {
+  let address: ipaddr.IPv4 | ipaddr.IPv6;
+  try {
+    address = ipaddr.process(ip); // Unwraps IPv4-mapped IPv6 (::ffff:1.2.3.4)
+  } catch (e) {
+    return false;
+  }
+
+  return ranges.some(cidr => {
+    try {
+      const range = parseRange(cidr);
+      return address.kind() === range[0].kind() && address.match(range);
+    } catch (e) {
+      return false;
+    }
+  });
+}
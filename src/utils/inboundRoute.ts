@@ -0,0 +1,52 @@
+// src/utils/inboundRoute.ts
+
+// How the sender called /hooks/:endpointId/*
+export interface InboundRoute {
+  method: string;
+  subPath?: string;     // Without leading slash, still URL-encoded
+  queryString?: string; // Without the leading '?'
+}
+
+const HOOK_URL = /^\/hooks\/[^/?]+\/?([^?]*)(?:\?(.*))?$/;
+
+// Splits a /hooks request URL (as received, e.g. "/hooks/abc/orders/42?sync=1")
+export function parseInboundRoute(method: string, url: string): InboundRoute {
+  const match = HOOK_URL.exec(url);
+  return {
+    method: method.toUpperCase(),
+    subPath: match?.[1] || undefined,
+    queryString: match?.[2] || undefined
+  };
+}
+
+// Rejects "." / ".." segments (also percent-encoded) so the sub-path can't climb out of targetUrl's path
+export function isSafeSubPath(subPath: string | null | undefined): boolean {
+  if (!subPath) return true;
+  return subPath.split('/').every(segment => {
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(segment);
+    } catch (e) {
+      return false;
+    }
+    return decoded !== '.' && decoded !== '..' && !decoded.includes('/') && !decoded.includes('\\');
+  });
+}
+
+/**
+ * targetUrl + sub-path + query string, e.g.
+ * "https://api.example.com/webhooks?src=buffer" + "orders/42" + "sync=1"
+ *   -> "https://api.example.com/webhooks/orders/42?src=buffer&sync=1"
+ */
+export function buildTargetUrl(targetUrl: string, route: { subPath?: string | null; queryString?: string | null }): string {
+  const url = new URL(targetUrl);
+
+  if (route.subPath) {
+    url.pathname = url.pathname.replace(/\/+$/, '') + '/' + route.subPath;
+  }
+  if (route.queryString) {
+    url.search = url.search ? `${url.search.slice(1)}&${route.queryString}` : route.queryString;
+  }
+
+  return url.toString();
+}
@@ -0,0 +1,9 @@
+// src/utils/jsonInput.ts
+import { Prisma } from '@prisma/client';
+
+// Optional Json columns from a request body: undefined leaves the column alone, null clears it
+// (Prisma rejects a plain null for Json fields)
+export function jsonInput(value: unknown): Prisma.NullableJsonNullValueInput | Prisma.InputJsonValue | undefined {
+  if (value === undefined) return undefined;
+  return value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+}
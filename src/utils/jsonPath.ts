@@ -0,0 +1,20 @@
+// src/utils/jsonPath.ts
+
+/**
+ * Minimal JSON path lookup: "data.object.id", "$.items[0].sku" or "items.0.sku".
+ * Returns undefined when any segment is missing.
+ */
+export function getByPath(obj: any, path: string): any {
+  const segments = path
+    .replace(/^\$\.?/, '')                // Optional "$." root
+    .replace(/\[(\d+)\]/g, '.$1')         // items[0] -> items.0
+    .split('.')
+    .filter(Boolean);
+
+  let current = obj;
+  for (const segment of segments) {
+    if (current === null || current === undefined || typeof current !== 'object') return undefined;
+    current = current[segment];
+  }
+  return current;
+}
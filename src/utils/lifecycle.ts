@@ -0,0 +1,35 @@
+// src/utils/lifecycle.ts
+import { Status } from '@prisma/client';
+
+/**
+ * Allowed Delivery.status moves. The happy path is QUEUED -> PROCESSING -> COMPLETED; a failed
+ * send goes to RETRY_SCHEDULED (BullMQ brings it back to PROCESSING) or FAILED once the retry
+ * policy is used up. WebhookEvent.status is rolled up from these (see DeliveryService).
+ */
+export const DELIVERY_TRANSITIONS: Record<Status, Status[]> = {
+  // QUEUED -> FAILED: its job died before it was ever sent
+  QUEUED:          ['PROCESSING', 'FAILED', 'PAUSED', 'BLOCKED', 'SKIPPED'],
+  // PROCESSING -> PROCESSING: a stalled job (its worker died) runs again
+  PROCESSING:      ['PROCESSING', 'COMPLETED', 'RETRY_SCHEDULED', 'FAILED', 'PAUSED', 'BLOCKED'],
+  // No replay while a retry is pending: its BullMQ job is still scheduled
+  RETRY_SCHEDULED: ['PROCESSING', 'FAILED', 'PAUSED', 'BLOCKED', 'SKIPPED'],
+  PAUSED:          ['QUEUED', 'SKIPPED'],
+  BLOCKED:         ['QUEUED', 'SKIPPED'],
+  FAILED:          ['QUEUED', 'SKIPPED'],
+  COMPLETED:       ['QUEUED'], // Replay
+  FILTERED:        ['QUEUED'], // Replay to a named destination
+  SKIPPED:         ['QUEUED']
+};
+
+// A worker that died mid-send leaves PROCESSING behind; past this its job may run again
+// (sends time out after 5s, BullMQ declares a job stalled after 30s)
+export const STALLED_PROCESSING_MS = 30 * 1000;
+
+export function canTransition(from: Status, to: Status): boolean {
+  return DELIVERY_TRANSITIONS[from].includes(to);
+}
+
+// Statuses a delivery may move to `to` from
+export function transitionSources(to: Status): Status[] {
+  return (Object.keys(DELIVERY_TRANSITIONS) as Status[]).filter(from => canTransition(from, to));
+}
@@ -0,0 +1,303 @@
+// src/utils/maintenance.ts
+
+/**
+ * Planned downtime of an endpoint's targets (Endpoint.maintenanceWindows). Deliveries are
+ * buffered as PAUSED while a window is open and flushed when it closes. Examples:
+ *   { "cron": "0 2 * * SUN", "durationMinutes": 90, "timezone": "Europe/Paris" }  - Sundays 02:00-03:30 Paris time
+ *   { "start": "2026-11-03T22:00", "end": "2026-11-04T01:00", "timezone": "America/New_York" }
+ *   { "start": "2026-11-03T22:00:00Z", "end": "2026-11-04T01:00:00Z", "reason": "DB migration" }
+ * One-off times without an offset are read in `timezone` (UTC by default).
+ */
+export interface MaintenanceWindow {
+  cron?: string;            // Recurring: when each window starts (minute hour day-of-month month day-of-week)
+  durationMinutes?: number; // Recurring: how long each one lasts
+  start?: string;           // One-off
+  end?: string;
+  timezone?: string;        // IANA name, e.g. 'Europe/Paris'
+  reason?: string;
+}
+
+// One occurrence of a window; `window` is its index in Endpoint.maintenanceWindows
+export interface MaintenanceOccurrence {
+  window: number;
+  start: Date;
+  end: Date;
+  reason?: string;
+}
+
+const MAX_WINDOWS = 20;
+const MAX_DURATION_MINUTES = 7 * 24 * 60;
+const MAX_ONE_OFF_MS = 30 * 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const HAS_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/i;
+const LOCAL_DATETIME = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+// Returns an error message, or null when the windows are usable
+export function validateMaintenanceWindows(windows: any): string | null {
+  if (windows === null || windows === undefined) return null;
+  if (!Array.isArray(windows)) return 'maintenanceWindows must be an array';
+  if (windows.length > MAX_WINDOWS) return `maintenanceWindows can have at most ${MAX_WINDOWS} entries`;
+
+  for (const [i, window] of windows.entries()) {
+    const field = `maintenanceWindows[${i}]`;
+    if (!window || typeof window !== 'object' || Array.isArray(window)) return `${field} must be an object`;
+
+    if (window.timezone !== undefined && !isTimeZone(window.timezone)) return `${field}.timezone is not a known time zone`;
+    if (window.reason !== undefined && (typeof window.reason !== 'string' || window.reason.length > 200)) {
+      return `${field}.reason must be a string of at most 200 characters`;
+    }
+
+    if (window.cron !== undefined) {
+      if (window.start !== undefined || window.end !== undefined) return `${field} takes either cron or start/end, not both`;
+      try {
+        parseCron(window.cron);
+      } catch (err: any) {
+        return `${field}.cron: ${err.message}`;
+      }
+      const duration = Number(window.durationMinutes);
+      if (!Number.isInteger(duration) || duration < 1 || duration > MAX_DURATION_MINUTES) {
+        return `${field}.durationMinutes must be an integer between 1 and ${MAX_DURATION_MINUTES}`;
+      }
+      continue;
+    }
+
+    if (window.start === undefined || window.end === undefined) return `${field} needs either cron + durationMinutes or start + end`;
+    const start = parseTime(window.start, window.timezone);
+    const end = parseTime(window.end, window.timezone);
+    if (start === null) return `${field}.start must be an ISO date-time`;
+    if (end === null) return `${field}.end must be an ISO date-time`;
+    if (end <= start) return `${field}.end must be after start`;
+    if (end - start > MAX_ONE_OFF_MS) return `${field} can last at most 30 days`;
+  }
+  return null;
+}
+
+/**
+ * The occurrence open at `now`, or null. Occurrences that had already started when someone
+ * resumed early (`resumedAt`) don't count any more - later ones still do.
+ */
+export function activeMaintenance(
+  windows: MaintenanceWindow[] | null | undefined,
+  resumedAt: Date | null | undefined,
+  now = new Date()
+): MaintenanceOccurrence | null {
+  let active: MaintenanceOccurrence | null = null;
+
+  for (const [i, window] of (windows || []).entries()) {
+    // Still open: started after now - length (and after the early resume)
+    const lookback = window.cron ? Number(window.durationMinutes) * MINUTE_MS : MAX_ONE_OFF_MS;
+    const from = Math.max(now.getTime() - lookback + 1, resumedAt ? resumedAt.getTime() + 1 : -Infinity);
+
+    // The latest start is the one that ends last
+    const [occurrence] = occurrencesOf(window, i, from, now.getTime(), 1, true);
+    if (!occurrence || occurrence.end <= now) continue;
+    // Overlapping windows: report the one that lasts longest
+    if (!active || occurrence.end > active.end) active = occurrence;
+  }
+  return active;
+}
+
+// Next `limit` occurrences that start after `now` (within `horizonDays`), soonest first
+export function upcomingMaintenance(
+  windows: MaintenanceWindow[] | null | undefined,
+  now = new Date(),
+  limit = 5,
+  horizonDays = 30
+): MaintenanceOccurrence[] {
+  const to = now.getTime() + horizonDays * DAY_MS;
+
+  return (windows || [])
+    .flatMap((window, i) => occurrencesOf(window, i, now.getTime() + 1, to, limit))
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .slice(0, limit);
+}
+
+// Occurrences of one window starting within [from, to], soonest first (or latest first)
+function occurrencesOf(
+  window: MaintenanceWindow, index: number, from: number, to: number, limit = Infinity, latestFirst = false
+): MaintenanceOccurrence[] {
+  const reason = window.reason;
+
+  if (!window.cron) {
+    const start = parseTime(window.start, window.timezone);
+    const end = parseTime(window.end, window.timezone);
+    if (start === null || end === null || start < from || start > to) return [];
+    return [{ window: index, start: new Date(start), end: new Date(end), reason }];
+  }
+
+  const durationMs = Number(window.durationMinutes) * MINUTE_MS;
+  return cronStarts(parseCron(window.cron), window.timezone || 'UTC', from, to, limit, latestFirst)
+    .map(start => ({ window: index, start: new Date(start), end: new Date(start + durationMs), reason }));
+}
+
+// ---------------------------------------------------------------------------
+// Cron (5 fields, evaluated in the window's time zone)
+// ---------------------------------------------------------------------------
+
+interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;      // day-of-month is '*'
+  anyWeekday: boolean;  // day-of-week is '*'
+}
+
+function parseCron(expression: any): CronSchedule {
+  if (typeof expression !== 'string') throw new Error('must be a string');
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error('expected 5 fields (minute hour day-of-month month day-of-week)');
+
+  const weekdays = parseField(fields[4], 0, 7, DAY_NAMES);
+  return {
+    minutes: [...parseField(fields[0], 0, 59)].sort((a, b) => a - b),
+    hours: [...parseField(fields[1], 0, 23)].sort((a, b) => a - b),
+    days: parseField(fields[2], 1, 31),
+    months: parseField(fields[3], 1, 12, MONTH_NAMES, 1),
+    weekdays: new Set([...weekdays].map(d => d % 7)), // 7 is Sunday too
+    anyDay: fields[2] === '*',
+    anyWeekday: fields[4] === '*'
+  };
+}
+
+// "*", "5", "1-5", "*/15", "10-50/10", "MON-FRI", lists of those
+function parseField(field: string, min: number, max: number, names: string[] = [], nameBase = 0): Set<number> {
+  const values = new Set<number>();
+  const value = (text: string) => {
+    const named = names.indexOf(text.toUpperCase());
+    const n = named !== -1 ? named + nameBase : Number(text);
+    if (!Number.isInteger(n) || n < min || n > max || text === '') throw new Error(`'${text}' is out of range in '${field}'`);
+    return n;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`bad step in '${field}'`);
+
+    let [low, high] = [min, max];
+    if (range !== '*') {
+      const [a, b] = range.split('-');
+      low = value(a);
+      high = b === undefined ? (stepText === undefined ? low : max) : value(b);
+    }
+    if (low > high) throw new Error(`bad range in '${field}'`);
+    for (let n = low; n <= high; n += step) values.add(n);
+  }
+  return values;
+}
+
+// Start times (UTC ms) within [from, to], walking the zone's calendar day by day
+function cronStarts(schedule: CronSchedule, timeZone: string, from: number, to: number, limit: number, latestFirst: boolean): number[] {
+  // A day of slack on both ends: offsets push local midnight either way
+  const first = localParts(Math.max(from, to - 400 * DAY_MS) - DAY_MS, timeZone);
+  const last = localParts(to + DAY_MS, timeZone);
+  const days: number[] = [];
+  for (let day = Date.UTC(first.year, first.month - 1, first.day); day <= Date.UTC(last.year, last.month - 1, last.day); day += DAY_MS) {
+    days.push(day);
+  }
+
+  // The zone's offsets at both ends (+1h for a DST change in between) bound where a wall-clock time can land
+  const offsets = [offsetMs(from, timeZone), offsetMs(to, timeZone)];
+  const [lowOffset, highOffset] = [Math.min(...offsets) - 60 * MINUTE_MS, Math.max(...offsets) + 60 * MINUTE_MS];
+
+  const order = <T>(list: T[]) => latestFirst ? [...list].reverse() : list;
+  const starts: number[] = [];
+
+  for (const day of order(days)) {
+    const date = new Date(day);
+    const [year, month, dom, dow] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), date.getUTCDay()];
+    if (!schedule.months.has(month)) continue;
+
+    // Classic cron: when both are restricted, either day field may match
+    const dayMatches = schedule.anyDay || schedule.anyWeekday
+      ? schedule.days.has(dom) && schedule.weekdays.has(dow)
+      : schedule.days.has(dom) || schedule.weekdays.has(dow);
+    if (!dayMatches) continue;
+
+    for (const hour of order(schedule.hours)) {
+      for (const minute of order(schedule.minutes)) {
+        // Skip the (costly) conversion when the time can't be in range
+        const wallClock = day + hour * 60 * MINUTE_MS + minute * MINUTE_MS;
+        if (wallClock - lowOffset < from || wallClock - highOffset > to) continue;
+
+        const at = zonedToUtc(year, month, dom, hour, minute, 0, timeZone);
+        if (at < from || at > to) continue;
+        starts.push(at);
+        if (starts.length >= limit) return starts;
+      }
+    }
+  }
+  return starts;
+}
+
+// ---------------------------------------------------------------------------
+// Time zones
+// ---------------------------------------------------------------------------
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function isTimeZone(timeZone: any): boolean {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    formatter(timeZone);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+function formatter(timeZone: string) {
+  let cached = formatters.get(timeZone);
+  if (!cached) {
+    cached = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'
+    });
+    formatters.set(timeZone, cached);
+  }
+  return cached;
+}
+
+function localParts(ms: number, timeZone: string) {
+  const parts = Object.fromEntries(formatter(timeZone).formatToParts(new Date(ms)).map(p => [p.type, Number(p.value)]));
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+// How far the zone's wall clock is ahead of UTC at `ms`
+function offsetMs(ms: number, timeZone: string) {
+  const p = localParts(ms, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(ms / 1000) * 1000;
+}
+
+// Wall-clock time in `timeZone` -> UTC ms. Tried with the offsets a day either side: a time that
+// happens twice (clocks back) takes the first, one skipped by a jump forward lands just after it
+function zonedToUtc(year: number, month: number, day: number, hour: number, minute: number, second: number, timeZone: string) {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const before = offsetMs(wallClock - DAY_MS, timeZone);
+  const after = offsetMs(wallClock + DAY_MS, timeZone);
+
+  const candidates = [wallClock - before, wallClock - after].filter((at, i) => offsetMs(at, timeZone) === [before, after][i]);
+  return candidates.length ? Math.min(...candidates) : wallClock - before;
+}
+
+// ISO date-time -> UTC ms; without an offset it's read in `timeZone`
+function parseTime(value: any, timeZone = 'UTC'): number | null {
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+
+  if (HAS_OFFSET.test(text)) {
+    const ms = Date.parse(text);
+    return Number.isNaN(ms) ? null : ms;
+  }
+
+  const local = LOCAL_DATETIME.exec(text);
+  if (!local || !isTimeZone(timeZone)) return null;
+  const [, year, month, day, hour, minute, second] = local.map(Number);
+  return zonedToUtc(year, month, day, hour, minute, second || 0, timeZone);
+}
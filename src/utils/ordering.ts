@@ -0,0 +1,40 @@
+// src/utils/ordering.ts
+import { getByPath } from './jsonPath';
+
+/**
+ * Ordered (FIFO) delivery (Endpoint.ordering). Deliveries sharing a destination and an
+ * ordering key go out strictly in receivedAt order; a failing one blocks those behind it.
+ *   { "enabled": true }                            - one sequence for the whole endpoint
+ *   { "enabled": true, "key": "data.object.id" }   - one sequence per payload value
+ * Events without a value at `key` are delivered unordered.
+ */
+export interface OrderingConfig {
+  enabled?: boolean;
+  key?: string; // JSON path into the payload
+}
+
+// Sequence name when the whole endpoint is ordered
+export const ENDPOINT_ORDERING_KEY = '*';
+
+const MAX_KEY_LENGTH = 200;
+
+// Returns an error message, or null when the config is usable
+export function validateOrderingConfig(config: any): string | null {
+  if (config === null || config === undefined) return null;
+  if (typeof config !== 'object' || Array.isArray(config)) return 'ordering must be an object';
+  if (config.enabled !== undefined && typeof config.enabled !== 'boolean') return 'ordering.enabled must be a boolean';
+  if (config.key !== undefined && (typeof config.key !== 'string' || !config.key.trim())) {
+    return 'ordering.key must be a JSON path (e.g. "data.object.id")';
+  }
+  return null;
+}
+
+// The sequence an event belongs to, or null when it isn't ordered
+export function resolveOrderingKey(config: OrderingConfig | null | undefined, payload: any): string | null {
+  if (!config?.enabled) return null;
+  if (!config.key) return ENDPOINT_ORDERING_KEY;
+
+  const value = getByPath(payload, config.key);
+  if (value === undefined || value === null || typeof value === 'object') return null;
+  return String(value).slice(0, MAX_KEY_LENGTH);
+}
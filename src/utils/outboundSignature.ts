@@ -0,0 +1,159 @@
+// src/utils/outboundSignature.ts
+import crypto from 'crypto';
+import { safeEqual } from './safeEqual';
+
+/**
+ * How deliveries to targetUrl are signed (Endpoint.signingConfig).
+ *   - 'standard-webhooks' (default): webhook-id / webhook-timestamp / webhook-signature ("v1,<base64>")
+ *   - 'hmac': one header, shaped like the inbound 'hmac' verifierConfig
+ */
+export interface SigningConfig {
+  format?: 'standard-webhooks' | 'hmac';
+  header?: string;                        // hmac: e.g. 'x-buffer-signature'
+  algorithm?: 'sha1' | 'sha256' | 'sha512';
+  encoding?: 'hex' | 'base64';
+  prefix?: string;                        // hmac: e.g. 'sha256='
+  timestampHeader?: string;               // hmac: sent with unix seconds when set
+  template?: string;                      // hmac: default '{timestamp}.{body}' with a timestampHeader, else '{body}'
+}
+
+export interface SignedMessage {
+  id: string;        // Stable across retries, so targets can dedup on it
+  timestamp: number; // Unix seconds
+  body: Buffer | string;
+}
+
+const FORMATS = ['standard-webhooks', 'hmac'];
+const ALGORITHMS = ['sha1', 'sha256', 'sha512'];
+const ENCODINGS = ['hex', 'base64'];
+export const DEFAULT_SIGNATURE_TOLERANCE = 300;
+
+// "whsec_" + base64(24 random bytes), same shape as Standard Webhooks / Svix secrets
+export function generateSigningSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64')}`;
+}
+
+// Returns an error message, or null when the config is usable
+export function validateSigningConfig(config: any): string | null {
+  if (config === null || config === undefined) return null;
+  if (typeof config !== 'object') return 'signingConfig must be an object';
+  if (config.format !== undefined && !FORMATS.includes(config.format)) {
+    return `signingConfig.format must be one of ${FORMATS.join(', ')}`;
+  }
+  if (config.format !== 'hmac') return null;
+
+  if (!config.header || typeof config.header !== 'string') return 'signingConfig.header is required for the hmac format';
+  if (config.algorithm !== undefined && !ALGORITHMS.includes(config.algorithm)) {
+    return `signingConfig.algorithm must be one of ${ALGORITHMS.join(', ')}`;
+  }
+  if (config.encoding !== undefined && !ENCODINGS.includes(config.encoding)) {
+    return `signingConfig.encoding must be one of ${ENCODINGS.join(', ')}`;
+  }
+  if (config.prefix !== undefined && typeof config.prefix !== 'string') return 'signingConfig.prefix must be a string';
+  if (config.timestampHeader !== undefined && (typeof config.timestampHeader !== 'string' || !config.timestampHeader)) {
+    return 'signingConfig.timestampHeader must be a non-empty string';
+  }
+  if (config.template !== undefined) {
+    if (typeof config.template !== 'string' || !config.template.includes('{body}')) {
+      return 'signingConfig.template must contain {body}';
+    }
+    if (config.template.includes('{timestamp}') && !config.timestampHeader) {
+      return 'signingConfig.template uses {timestamp} but no timestampHeader is set';
+    }
+  }
+  return null;
+}
+
+/**
+ * Headers to add to an outbound delivery.
+ * With standard-webhooks every secret gets its own v1 entry (old + new while rotating);
+ * the hmac format carries a single signature, made with the first secret.
+ */
+export function signDelivery(secrets: string[], config: SigningConfig | null | undefined, message: SignedMessage): Record<string, string> {
+  const timestamp = String(message.timestamp);
+
+  if (config?.format === 'hmac') {
+    const headers: Record<string, string> = {
+      [config.header!.toLowerCase()]: (config.prefix || '') + hmacSignature(secrets[0], config, message)
+    };
+    if (config.timestampHeader) headers[config.timestampHeader.toLowerCase()] = timestamp;
+    return headers;
+  }
+
+  return {
+    'webhook-id': message.id,
+    'webhook-timestamp': timestamp,
+    'webhook-signature': secrets.map(secret => `v1,${standardSignature(secret, message)}`).join(' ')
+  };
+}
+
+/**
+ * Checks a delivery on the receiving side. `headers` use lower-case names (as in Node / Fastify / Express).
+ * Returns false for a bad signature or a timestamp more than `tolerance` seconds away.
+ */
+export function verifyDelivery(
+  secret: string,
+  rawBody: Buffer | string,
+  headers: Record<string, any>,
+  config?: SigningConfig | null,
+  tolerance: number = DEFAULT_SIGNATURE_TOLERANCE
+): boolean {
+  const now = Math.floor(Date.now() / 1000);
+  const isFresh = (value: any) => {
+    const sentAt = parseInt(value, 10);
+    return !isNaN(sentAt) && Math.abs(now - sentAt) <= tolerance;
+  };
+
+  if (config?.format === 'hmac') {
+    let signature = headers[config.header!.toLowerCase()];
+    if (typeof signature !== 'string') return false;
+
+    const prefix = config.prefix || '';
+    if (!signature.startsWith(prefix)) return false;
+    signature = signature.slice(prefix.length);
+
+    let timestamp = 0;
+    if (config.timestampHeader) {
+      const value = headers[config.timestampHeader.toLowerCase()];
+      if (!isFresh(value)) return false;
+      timestamp = parseInt(value, 10);
+    }
+
+    return safeEqual(signature, hmacSignature(secret, config, { id: '', timestamp, body: rawBody }));
+  }
+
+  const id = headers['webhook-id'];
+  const timestamp = headers['webhook-timestamp'];
+  const signatureHeader = headers['webhook-signature'];
+  if (typeof id !== 'string' || typeof signatureHeader !== 'string' || !isFresh(timestamp)) return false;
+
+  const expected = standardSignature(secret, { id, timestamp: parseInt(timestamp, 10), body: rawBody });
+  return signatureHeader.split(' ').some(entry => {
+    const [version, signature] = entry.split(',');
+    return version === 'v1' && !!signature && safeEqual(signature, expected);
+  });
+}
+
+// HMAC-SHA256("{id}.{timestamp}.{body}") keyed with the base64 part of the secret
+function standardSignature(secret: string, message: SignedMessage): string {
+  const key = Buffer.from(secret.startsWith('whsec_') ? secret.slice(6) : secret, 'base64');
+  return crypto
+    .createHmac('sha256', key)
+    .update(`${message.id}.${message.timestamp}.`)
+    .update(message.body)
+    .digest('base64');
+}
+
+function hmacSignature(secret: string, config: SigningConfig, message: SignedMessage): string {
+  const template = config.template || (config.timestampHeader ? '{timestamp}.{body}' : '{body}');
+  const hmac = crypto.createHmac(config.algorithm || 'sha256', secret);
+
+  // Feed the body as bytes so binary payloads sign exactly as sent
+  template.split(/(\{body\}|\{timestamp\})/).forEach(part => {
+    if (part === '{body}') hmac.update(message.body);
+    else if (part === '{timestamp}') hmac.update(String(message.timestamp));
+    else if (part) hmac.update(part);
+  });
+
+  return hmac.digest(config.encoding || 'hex');
+}
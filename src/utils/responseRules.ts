@@ -0,0 +1,200 @@
+// src/utils/responseRules.ts
+import { FilterRules, matchesFilter, validateFilterRules } from './filterRules';
+
+export type ResponseOutcome = 'success' | 'retry' | 'fatal';
+
+// 503, "5xx" or "500-504"
+export type StatusMatcher = number | string;
+
+/**
+ * How a destination's responses are judged (Endpoint.responseRules). Example:
+ *   {
+ *     "retry": [409, "5xx"],
+ *     "fatal": [501],
+ *     "body": [{ "when": { "path": "ok", "op": "eq", "value": false }, "outcome": "retry" }],
+ *     "retryAfter": { "header": "x-ratelimit-reset", "format": "epoch-seconds" }
+ *   }
+ * Status lists replace their default one by one. When several match, the most specific
+ * matcher wins (503 over "500-504" over "5xx"). Body rules (filter rules evaluated against the
+ * parsed response body and headers) run after, first match wins.
+ */
+export interface ResponseRules {
+  success?: StatusMatcher[];
+  retry?: StatusMatcher[];
+  fatal?: StatusMatcher[];
+  body?: { when: FilterRules; outcome: ResponseOutcome }[];
+  retryAfter?: RetryAfterConfig | false; // false: always use the retry policy's backoff
+}
+
+export interface RetryAfterConfig {
+  header?: string;         // Extra header to honor besides Retry-After (e.g. 'x-ratelimit-reset')
+  format?: 'auto' | 'seconds' | 'epoch-seconds' | 'epoch-ms' | 'http-date';
+  maxMs?: number;          // Longest wait we accept from a target
+}
+
+export interface ResponseVerdict {
+  outcome: ResponseOutcome;
+  reason: string;          // e.g. 'status 429', 'body rule #1'
+  retryAfterMs?: number;   // Only for 'retry': wait this long instead of the backoff
+}
+
+// 4xx is the target rejecting the request - except timeouts and rate limits
+export const DEFAULT_RESPONSE_RULES: Required<Pick<ResponseRules, 'success' | 'retry' | 'fatal'>> = {
+  success: ['2xx'],
+  retry: [408, 429, '5xx'],
+  fatal: ['4xx']
+};
+
+const DEFAULT_MAX_RETRY_AFTER_MS = 60 * 60 * 1000;
+const OUTCOMES: ResponseOutcome[] = ['success', 'retry', 'fatal'];
+const FORMATS = ['auto', 'seconds', 'epoch-seconds', 'epoch-ms', 'http-date'];
+const CLASS_MATCHER = /^([1-5])xx$/i;
+const RANGE_MATCHER = /^(\d{3})-(\d{3})$/;
+
+// Returns an error message, or null when the rules are usable
+export function validateResponseRules(rules: any): string | null {
+  if (rules === null || rules === undefined) return null;
+  if (typeof rules !== 'object' || Array.isArray(rules)) return 'responseRules must be an object';
+
+  for (const outcome of OUTCOMES) {
+    const list = rules[outcome];
+    if (list === undefined) continue;
+    if (!Array.isArray(list)) return `responseRules.${outcome} must be an array of status codes`;
+    const invalid = list.find((m: any) => specificity(m) === 0);
+    if (invalid !== undefined) return `responseRules.${outcome}: '${invalid}' is not a status code, "5xx" or "500-599"`;
+  }
+
+  if (rules.body !== undefined) {
+    if (!Array.isArray(rules.body)) return 'responseRules.body must be an array';
+    for (const [i, rule] of rules.body.entries()) {
+      if (!rule || !OUTCOMES.includes(rule.outcome)) return `responseRules.body[${i}].outcome must be one of: ${OUTCOMES.join(', ')}`;
+      if (rule.when === undefined || rule.when === null) return `responseRules.body[${i}].when is required`;
+      const ruleError = validateFilterRules(rule.when, `responseRules.body[${i}].when`);
+      if (ruleError) return ruleError;
+    }
+  }
+
+  const { retryAfter } = rules;
+  if (retryAfter !== undefined && retryAfter !== false) {
+    if (!retryAfter || typeof retryAfter !== 'object') return 'responseRules.retryAfter must be an object or false';
+    if (retryAfter.header !== undefined && (typeof retryAfter.header !== 'string' || !retryAfter.header)) {
+      return 'responseRules.retryAfter.header must be a header name';
+    }
+    if (retryAfter.format !== undefined && !FORMATS.includes(retryAfter.format)) {
+      return `responseRules.retryAfter.format must be one of: ${FORMATS.join(', ')}`;
+    }
+    if (retryAfter.maxMs !== undefined && !(Number(retryAfter.maxMs) >= 1000)) {
+      return 'responseRules.retryAfter.maxMs must be at least 1000';
+    }
+  }
+  return null;
+}
+
+/**
+ * Judges one HTTP response. `body` is the raw response text (parsed as JSON for body rules
+ * when possible). Network errors never get here - they're always retried.
+ */
+export function classifyResponse(
+  rules: ResponseRules | null | undefined,
+  response: { status: number; headers: Record<string, any>; body: string },
+  now = Date.now()
+): ResponseVerdict {
+  let verdict: ResponseVerdict = { outcome: statusOutcome(rules, response.status), reason: `status ${response.status}` };
+
+  if (rules?.body?.length) {
+    const ctx = { headers: lowercaseKeys(response.headers), payload: parseBody(response.body) };
+    const index = rules.body.findIndex(rule => matchesFilter(rule.when, ctx));
+    if (index !== -1) verdict = { outcome: rules.body[index].outcome, reason: `body rule #${index + 1} (status ${response.status})` };
+  }
+
+  if (verdict.outcome === 'retry' && rules?.retryAfter !== false) {
+    const retryAfterMs = parseRetryAfter(response.headers, rules?.retryAfter || {}, now);
+    if (retryAfterMs !== undefined) verdict.retryAfterMs = retryAfterMs;
+  }
+  return verdict;
+}
+
+function statusOutcome(rules: ResponseRules | null | undefined, status: number): ResponseOutcome {
+  let best: { outcome: ResponseOutcome; score: number } | null = null;
+
+  for (const outcome of OUTCOMES) {
+    for (const matcher of rules?.[outcome] ?? DEFAULT_RESPONSE_RULES[outcome]) {
+      const score = matches(matcher, status) ? specificity(matcher) : 0;
+      if (score > (best?.score ?? 0)) best = { outcome, score };
+    }
+  }
+  return best?.outcome ?? 'retry'; // 1xx/3xx nobody claimed: try again later
+}
+
+// 3 = exact code, 2 = range, 1 = class; 0 = not a matcher
+function specificity(matcher: any): number {
+  if (typeof matcher === 'number') return Number.isInteger(matcher) && matcher >= 100 && matcher <= 599 ? 3 : 0;
+  if (typeof matcher !== 'string') return 0;
+  if (/^\d{3}$/.test(matcher)) return specificity(Number(matcher));
+  if (RANGE_MATCHER.test(matcher)) return 2;
+  return CLASS_MATCHER.test(matcher) ? 1 : 0;
+}
+
+function matches(matcher: StatusMatcher, status: number): boolean {
+  if (typeof matcher === 'number' || /^\d{3}$/.test(matcher)) return Number(matcher) === status;
+  const range = RANGE_MATCHER.exec(matcher);
+  if (range) return status >= Number(range[1]) && status <= Number(range[2]);
+  const cls = CLASS_MATCHER.exec(matcher);
+  return !!cls && Math.floor(status / 100) === Number(cls[1]);
+}
+
+/**
+ * Milliseconds until the target wants the next attempt, from Retry-After (seconds or
+ * HTTP-date) or the configured reset header. Undefined when there's no usable hint.
+ */
+export function parseRetryAfter(headers: Record<string, any>, config: RetryAfterConfig, now = Date.now()): number | undefined {
+  const lower = lowercaseKeys(headers);
+  const maxMs = Number(config.maxMs) || DEFAULT_MAX_RETRY_AFTER_MS;
+
+  const candidates: [string | undefined, RetryAfterConfig['format']][] = [
+    [config.header ? lower[config.header.toLowerCase()] : undefined, config.format || 'auto'],
+    [lower['retry-after'], 'auto']
+  ];
+
+  for (const [value, format] of candidates) {
+    if (value === undefined || value === null || value === '') continue;
+    const at = resetTime(String(value).trim(), format || 'auto', now);
+    if (at === undefined) continue;
+    return Math.min(Math.max(at - now, 0), maxMs);
+  }
+  return undefined;
+}
+
+// Absolute time (ms) the header points at
+function resetTime(value: string, format: NonNullable<RetryAfterConfig['format']>, now: number): number | undefined {
+  const number = Number(value);
+  const isNumber = value !== '' && Number.isFinite(number);
+
+  switch (format) {
+    case 'seconds': return isNumber ? now + number * 1000 : undefined;
+    case 'epoch-seconds': return isNumber ? number * 1000 : undefined;
+    case 'epoch-ms': return isNumber ? number : undefined;
+    case 'http-date': {
+      const date = Date.parse(value);
+      return Number.isNaN(date) ? undefined : date;
+    }
+    default: {
+      // Small numbers are a delay, big ones a Unix timestamp (s or ms)
+      if (isNumber) return number > 1e12 ? number : number > 1e9 ? number * 1000 : now + number * 1000;
+      const date = Date.parse(value);
+      return Number.isNaN(date) ? undefined : date;
+    }
+  }
+}
+
+function parseBody(body: string): any {
+  try {
+    return JSON.parse(body);
+  } catch (e) {
+    return body;
+  }
+}
+
+function lowercaseKeys(headers: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(headers || {}).map(([k, v]) => [k.toLowerCase(), v]));
+}
@@ -0,0 +1,137 @@
+// src/utils/retryPolicy.ts
+import crypto from 'crypto';
+
+export type BackoffStrategy = 'exponential' | 'fixed' | 'jittered';
+
+/**
+ * Retry schedule of a delivery. Set on the Endpoint (Endpoint.retryPolicy) and optionally
+ * overridden per destination (Destination.retryPolicy). `preset` starts from a named schedule,
+ * the other fields override it:
+ *   { "preset": "quick" }
+ *   { "preset": "standard", "maxAgeMs": 86400000 }
+ *   { "strategy": "fixed", "attempts": 10, "backoffDelayMs": 60000 }
+ */
+export interface RetryPolicy {
+  preset?: RetryPreset;
+  attempts?: number;         // Total tries, including the first
+  strategy?: BackoffStrategy;
+  backoffDelayMs?: number;   // Fixed: every delay. Exponential/jittered: first delay, doubling after
+  maxDelayMs?: number;       // Cap on a single delay
+  maxAgeMs?: number;         // Give up once the next retry would land later than this after queueing
+}
+
+export interface ResolvedRetryPolicy {
+  attempts: number;
+  strategy: BackoffStrategy;
+  backoffDelayMs: number;
+  maxDelayMs: number | null;
+  maxAgeMs: number | null;
+}
+
+export const RETRY_PRESETS = {
+  // 2^18 * 5 seconds ≈ 15 days
+  standard: { attempts: 18, strategy: 'exponential', backoffDelayMs: 5000, maxDelayMs: null, maxAgeMs: null },
+  // 3 retries within ~10 seconds
+  quick: { attempts: 4, strategy: 'exponential', backoffDelayMs: 1000, maxDelayMs: 5000, maxAgeMs: null },
+  // Every 5 minutes for 2 hours
+  steady: { attempts: 25, strategy: 'fixed', backoffDelayMs: 5 * 60 * 1000, maxDelayMs: null, maxAgeMs: null },
+  // Spread out (no thundering herd after an outage), at most hourly, for a day
+  jittered: { attempts: 30, strategy: 'jittered', backoffDelayMs: 10000, maxDelayMs: 60 * 60 * 1000, maxAgeMs: 24 * 60 * 60 * 1000 }
+} satisfies Record<string, ResolvedRetryPolicy>;
+
+export type RetryPreset = keyof typeof RETRY_PRESETS;
+
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = RETRY_PRESETS.standard as ResolvedRetryPolicy;
+
+const MAX_ATTEMPTS = 30;
+const STRATEGIES: BackoffStrategy[] = ['exponential', 'fixed', 'jittered'];
+
+// Returns an error message, or null when the policy is usable
+export function validateRetryPolicy(policy: any): string | null {
+  if (policy === null || policy === undefined) return null;
+  if (typeof policy !== 'object') return 'retryPolicy must be an object';
+  if (policy.preset !== undefined && !(policy.preset in RETRY_PRESETS)) {
+    return `retryPolicy.preset must be one of: ${Object.keys(RETRY_PRESETS).join(', ')}`;
+  }
+  if (policy.attempts !== undefined) {
+    const attempts = Number(policy.attempts);
+    if (!Number.isInteger(attempts) || attempts < 1 || attempts > MAX_ATTEMPTS) {
+      return `retryPolicy.attempts must be an integer between 1 and ${MAX_ATTEMPTS}`;
+    }
+  }
+  if (policy.strategy !== undefined && !STRATEGIES.includes(policy.strategy)) {
+    return `retryPolicy.strategy must be one of: ${STRATEGIES.join(', ')}`;
+  }
+  for (const field of ['backoffDelayMs', 'maxDelayMs', 'maxAgeMs']) {
+    if (policy[field] !== undefined && policy[field] !== null && !(Number(policy[field]) >= 1000)) {
+      return `retryPolicy.${field} must be at least 1000`;
+    }
+  }
+  return null;
+}
+
+// Later policies override earlier ones: resolveRetryPolicy(endpoint.retryPolicy, destination.retryPolicy)
+export function resolveRetryPolicy(...policies: (RetryPolicy | null | undefined)[]): ResolvedRetryPolicy {
+  let resolved = { ...DEFAULT_RETRY_POLICY };
+
+  for (const policy of policies) {
+    if (!policy) continue;
+    if (policy.preset && policy.preset in RETRY_PRESETS) resolved = { ...RETRY_PRESETS[policy.preset] } as ResolvedRetryPolicy;
+    if (policy.attempts !== undefined) resolved.attempts = Number(policy.attempts);
+    if (policy.strategy !== undefined) resolved.strategy = policy.strategy;
+    if (policy.backoffDelayMs !== undefined) resolved.backoffDelayMs = Number(policy.backoffDelayMs);
+    if (policy.maxDelayMs !== undefined) resolved.maxDelayMs = policy.maxDelayMs === null ? null : Number(policy.maxDelayMs);
+    if (policy.maxAgeMs !== undefined) resolved.maxAgeMs = policy.maxAgeMs === null ? null : Number(policy.maxAgeMs);
+  }
+  return resolved;
+}
+
+/**
+ * Delay before retry number `retry` (1 = the first retry).
+ * Jitter is derived from `seed` (the job id), so the worker's log/nextRetryAt and
+ * BullMQ's backoff strategy come up with the same delay.
+ */
+export function retryDelayMs(policy: ResolvedRetryPolicy, retry: number, seed: string): number {
+  const exponential = policy.backoffDelayMs * Math.pow(2, retry - 1);
+
+  let delay: number;
+  switch (policy.strategy) {
+    case 'fixed':
+      delay = policy.backoffDelayMs;
+      break;
+    case 'jittered': {
+      // "Equal jitter": half the (capped) delay, plus a random share of the other half
+      const capped = policy.maxDelayMs ? Math.min(exponential, policy.maxDelayMs) : exponential;
+      delay = capped / 2 + (capped / 2) * seededRandom(`${seed}:${retry}`);
+      break;
+    }
+    default:
+      delay = exponential;
+  }
+
+  return Math.round(policy.maxDelayMs ? Math.min(delay, policy.maxDelayMs) : delay);
+}
+
+/**
+ * When the next retry runs, or null when the policy is used up (attempts or max age).
+ * `attemptsMade` counts the tries before the one that just failed (BullMQ's job.attemptsMade).
+ * `delayMs` replaces the backoff when the target asked for a specific wait (Retry-After).
+ */
+export function nextRetryAt(
+  policy: ResolvedRetryPolicy,
+  job: { attemptsMade: number; queuedAt: number; seed: string },
+  delayMs?: number,
+  now = Date.now()
+): Date | null {
+  const retry = job.attemptsMade + 1;
+  if (retry >= policy.attempts) return null;
+
+  const at = now + (delayMs ?? retryDelayMs(policy, retry, job.seed));
+  if (policy.maxAgeMs && at - job.queuedAt > policy.maxAgeMs) return null;
+
+  return new Date(at);
+}
+
+function seededRandom(seed: string): number {
+  return crypto.createHash('sha256').update(seed).digest().readUInt32BE(0) / 0x100000000;
+}
@@ -0,0 +1,9 @@
+// src/utils/safeEqual.ts
+import crypto from 'crypto';
+
+// Constant-time string comparison (for tokens, passwords, signatures)
+export function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
@@ -0,0 +1,263 @@
+// src/utils/transform.ts
+import { TransformError } from '../core/errors/TransformError';
+import { getByPath } from './jsonPath';
+
+/**
+ * Declarative reshaping of an outbound delivery (Endpoint.transform). Example:
+ *   {
+ *     "body": {
+ *       "kind": "{{ event.type }}",
+ *       "customer": "{{ payload.data.object.customer }}",
+ *       "total": "{{ payload.data.object.amount_due | number }}",
+ *       "lines": { "$each": "payload.data.object.lines.data", "as": "line", "template": { "sku": "{{ line.price.id }}" } }
+ *     },
+ *     "headers": { "remove": ["stripe-signature"], "rename": { "x-request-id": "x-upstream-id" }, "set": { "x-tenant": "{{ payload.data.object.metadata.tenant }}" } },
+ *     "url": "/tenants/{{ payload.data.object.metadata.tenant }}/invoices"
+ *   }
+ *
+ * Templates: strings interpolate "{{ path | filter | filter:arg }}" (a string that is only one
+ * expression keeps the value's type); objects and arrays are walked; "$each", "$if", "$merge"
+ * and "$literal" objects are directives. Paths start at payload, headers, event or destination.
+ */
+export interface TransformSpec {
+  body?: any;   // Omitted: the original bytes are forwarded unchanged
+  headers?: {
+    remove?: string[];
+    rename?: Record<string, string>;
+    set?: Record<string, string>;  // Templates
+  };
+  url?: string; // Template; relative to the destination URL, or absolute on the same origin
+}
+
+export interface TransformInput {
+  payload: any;
+  headers: Record<string, any>;
+  event: Record<string, any>;       // id, type, receivedAt, method, subPath, queryString
+  destination: Record<string, any>; // id, name, url
+}
+
+export interface TransformOutput {
+  body?: any;
+  headers: Record<string, string>;
+  url?: string;
+}
+
+const MAX_STEPS = 50000;
+export const MAX_TRANSFORM_OUTPUT_BYTES = 1024 * 1024;
+
+const FILTERS = ['upper', 'lower', 'string', 'number', 'boolean', 'json', 'urlencode', 'default'];
+const EXPRESSION = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const WHOLE_EXPRESSION = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+const DIRECTIVES = ['$each', '$if', '$merge', '$literal'];
+
+// Returns an error message, or null when the spec is usable
+export function validateTransform(spec: any): string | null {
+  if (spec === null || spec === undefined) return null;
+  if (typeof spec !== 'object' || Array.isArray(spec)) return 'transform must be an object';
+
+  const unknown = Object.keys(spec).find(k => !['body', 'headers', 'url'].includes(k));
+  if (unknown) return `transform.${unknown} is not supported (use body, headers, url)`;
+
+  if (spec.headers !== undefined) {
+    const { remove, rename, set } = spec.headers || {};
+    if (typeof spec.headers !== 'object') return 'transform.headers must be an object';
+    if (remove !== undefined && (!Array.isArray(remove) || remove.some((h: any) => typeof h !== 'string'))) {
+      return 'transform.headers.remove must be an array of header names';
+    }
+    for (const [name, map] of [['rename', rename], ['set', set]] as const) {
+      if (map === undefined) continue;
+      if (typeof map !== 'object' || Array.isArray(map) || Object.values(map).some(v => typeof v !== 'string')) {
+        return `transform.headers.${name} must map header names to strings`;
+      }
+    }
+  }
+
+  if (spec.url !== undefined && (typeof spec.url !== 'string' || !spec.url)) return 'transform.url must be a non-empty string';
+
+  try {
+    checkTemplate(spec.body);
+    checkTemplate(spec.headers?.set);
+    checkTemplate(spec.url);
+  } catch (err: any) {
+    return `transform: ${err.message}`;
+  }
+  return null;
+}
+
+/**
+ * Pure interpreter - runs inside the sandbox thread (see TransformSandbox), which adds
+ * the memory/CPU limits. The step budget stops runaway "$each" nesting on its own.
+ */
+export function applyTransform(spec: TransformSpec, input: TransformInput): TransformOutput {
+  const evaluator = new Evaluator(input);
+
+  // Headers: remove -> rename -> set
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(input.headers || {})) {
+    if (value !== undefined && value !== null) headers[name.toLowerCase()] = String(value);
+  }
+  for (const name of spec.headers?.remove || []) delete headers[name.toLowerCase()];
+  for (const [from, to] of Object.entries(spec.headers?.rename || {})) {
+    const key = from.toLowerCase();
+    if (key in headers) {
+      headers[to.toLowerCase()] = headers[key];
+      delete headers[key];
+    }
+  }
+  for (const [name, template] of Object.entries(spec.headers?.set || {})) {
+    const value = evaluator.interpolate(template, {}, false);
+    if (value !== '') headers[name.toLowerCase()] = value;
+  }
+
+  const output: TransformOutput = { headers };
+  if (spec.body !== undefined) output.body = evaluator.evaluate(spec.body, {});
+  if (spec.url !== undefined) output.url = evaluator.interpolate(spec.url, {}, true); // Values are URL-encoded
+
+  const size = Buffer.byteLength(JSON.stringify(output));
+  if (size > MAX_TRANSFORM_OUTPUT_BYTES) {
+    throw new TransformError('LIMIT_EXCEEDED', `Transform output is ${size} bytes (max ${MAX_TRANSFORM_OUTPUT_BYTES})`);
+  }
+  return output;
+}
+
+class Evaluator {
+  private steps = 0;
+
+  constructor(private root: TransformInput) {}
+
+  evaluate(template: any, scope: Record<string, any>): any {
+    this.tick();
+
+    if (typeof template === 'string') {
+      const whole = WHOLE_EXPRESSION.exec(template);
+      return whole ? this.expression(whole[1], scope) : this.interpolate(template, scope, false);
+    }
+    if (Array.isArray(template)) return template.map(item => this.evaluate(item, scope));
+    if (template === null || typeof template !== 'object') return template;
+
+    if ('$literal' in template) return template.$literal;
+
+    if ('$each' in template) {
+      const list = this.expression(template.$each, scope);
+      if (!Array.isArray(list)) return [];
+      const as = template.as || 'item';
+      return list.map((item, index) => this.evaluate(template.template, { ...scope, [as]: item, index }));
+    }
+
+    if ('$if' in template) {
+      return this.expression(template.$if, scope)
+        ? this.evaluate(template.then, scope)
+        : (template.else === undefined ? undefined : this.evaluate(template.else, scope));
+    }
+
+    if ('$merge' in template) {
+      return (template.$merge as any[]).reduce((merged, part) => {
+        const value = this.evaluate(part, scope);
+        if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+          throw new TransformError('EVALUATION_FAILED', '$merge parts must evaluate to objects');
+        }
+        return { ...merged, ...value };
+      }, {});
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(template)) {
+      const evaluated = this.evaluate(value, scope);
+      if (evaluated !== undefined) result[key] = evaluated;
+    }
+    return result;
+  }
+
+  // "a {{ x }} b" -> string; missing values become ''
+  interpolate(template: string, scope: Record<string, any>, encode: boolean): string {
+    return template.replace(EXPRESSION, (_, expr) => {
+      const value = this.expression(expr, scope);
+      if (value === undefined || value === null) return '';
+      const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      return encode ? encodeURIComponent(text) : text;
+    });
+  }
+
+  // "payload.data.id | default:0 | number"
+  private expression(expr: string, scope: Record<string, any>): any {
+    this.tick();
+    const [path, ...filters] = expr.split('|').map(part => part.trim());
+
+    const [head] = path.split(/[.[]/);
+    const base = head in scope ? scope : this.root;
+    let value = getByPath(base, path);
+
+    for (const filter of filters) value = applyFilter(value, filter);
+    return value;
+  }
+
+  private tick() {
+    if (++this.steps > MAX_STEPS) {
+      throw new TransformError('LIMIT_EXCEEDED', `Transform exceeded ${MAX_STEPS} evaluation steps`);
+    }
+  }
+}
+
+function applyFilter(value: any, filter: string): any {
+  const [name, ...rest] = filter.split(':');
+  const arg = rest.join(':').trim();
+
+  switch (name.trim()) {
+    case 'upper': return value === undefined || value === null ? value : String(value).toUpperCase();
+    case 'lower': return value === undefined || value === null ? value : String(value).toLowerCase();
+    case 'string': return value === undefined || value === null ? value : String(value);
+    case 'number': return value === undefined || value === null || value === '' ? value : Number(value);
+    case 'boolean': return Boolean(value);
+    case 'json': return JSON.stringify(value);
+    case 'urlencode': return value === undefined || value === null ? value : encodeURIComponent(String(value));
+    case 'default': return value === undefined || value === null || value === '' ? parseLiteral(arg) : value;
+    default: throw new TransformError('INVALID_TRANSFORM', `Unknown filter '${name}'`);
+  }
+}
+
+// default:0 -> 0, default:"n/a" -> 'n/a', default:n/a -> 'n/a'
+function parseLiteral(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return text;
+  }
+}
+
+// Walks a template and rejects unknown filters / malformed directives up front
+function checkTemplate(template: any, depth = 0): void {
+  if (depth > 32) throw new Error('template is nested too deeply');
+
+  if (typeof template === 'string') {
+    for (const [, expr] of template.matchAll(EXPRESSION)) {
+      const [path, ...filters] = expr.split('|').map(part => part.trim());
+      if (!path) throw new Error(`empty path in '{{ ${expr} }}'`);
+      for (const filter of filters) {
+        const name = filter.split(':')[0].trim();
+        if (!FILTERS.includes(name)) throw new Error(`unknown filter '${name}' (available: ${FILTERS.join(', ')})`);
+      }
+    }
+    return;
+  }
+  if (Array.isArray(template)) return template.forEach(item => checkTemplate(item, depth + 1));
+  if (template === null || typeof template !== 'object') return;
+
+  const directive = DIRECTIVES.find(d => d in template);
+  if (directive === '$literal') return;
+  if (directive === '$each') {
+    if (typeof template.$each !== 'string') throw new Error('$each must be a path string');
+    if (template.template === undefined) throw new Error('$each needs a template');
+    return checkTemplate(template.template, depth + 1);
+  }
+  if (directive === '$if') {
+    if (typeof template.$if !== 'string') throw new Error('$if must be a path string');
+    checkTemplate(template.then, depth + 1);
+    return checkTemplate(template.else, depth + 1);
+  }
+  if (directive === '$merge') {
+    if (!Array.isArray(template.$merge)) throw new Error('$merge must be an array');
+    return checkTemplate(template.$merge, depth + 1);
+  }
+
+  Object.values(template).forEach(value => checkTemplate(value, depth + 1));
+}
@@ -1,12 +1,33 @@
 import 'dotenv/config';
-import { Worker } from 'bullmq';
-import { PrismaClient } from '@prisma/client';
-import axios from 'axios';
+import { DelayedError, Worker } from 'bullmq';
+import { Prisma, PrismaClient, Status } from '@prisma/client';
+import axios, { AxiosResponse } from 'axios';
 import { Redis } from 'ioredis';
 import https from 'https';
 import http from 'http';
 import { BatchLogger } from '../infrastructure/logger/BatchLogger'; // <--- Import
 import { createRedisConfig } from '../infrastructure/redis/redis';
+import { RateLimiter } from '../infrastructure/redis/RateLimiter';
+import { FairScheduler } from '../infrastructure/queue/FairScheduler';
+import { SigningConfig, signDelivery } from '../utils/outboundSignature';
+import { QueueService, retryPolicyBackoff } from '../infrastructure/queue/QueueService';
+import { ResolvedRetryPolicy, RetryPolicy, nextRetryAt, resolveRetryPolicy } from '../utils/retryPolicy';
+import { DeliveryService } from '../core/services/DeliveryService';
+import { FailoverService, FailoverTarget } from '../core/services/FailoverService';
+import { CircuitBreakerService } from '../core/services/CircuitBreakerService';
+import { OrderingService } from '../core/services/OrderingService';
+import { MaintenanceService } from '../core/services/MaintenanceService';
+import { ConcurrencyService, DeliveryOutcome } from '../core/services/ConcurrencyService';
+import { ConcurrencyConfig, concurrencyRetryDelayMs } from '../utils/concurrency';
+import { CircuitBreakerConfig } from '../utils/circuitBreaker';
+import { buildOutboundRequest } from '../core/services/OutboundRequest';
+import { TransformError } from '../core/errors/TransformError';
+import { DeliveryResponseError } from '../core/errors/DeliveryResponseError';
+import { InvalidTransitionError } from '../core/errors/InvalidTransitionError';
+import { canTransition } from '../utils/lifecycle';
+import { ResponseRules, classifyResponse } from '../utils/responseRules';
+import { classifyDeliveryError } from '../utils/deliveryError';
+import { TransformSandbox } from '../infrastructure/sandbox/TransformSandbox';
 
 // OPTIMIZATION 1: Keep-Alive Agents (Reuses TCP connections)
 const httpAgent = new http.Agent({ keepAlive: true, maxSockets: 100 });
@@ -19,111 +40,273 @@ const prisma = new PrismaClient({ datasourceUrl: process.env.DATABASE_URL });
 // OPTIMIZATION 2: Initialize Batch Logger
 const batchLogger = new BatchLogger(prisma);
 
+const deliveryService = new DeliveryService(prisma, new QueueService('webhook-queue'));
+deliveryService.startCron(); // Re-queues deliveries left PROCESSING by a worker that died mid-send
+const transformSandbox = new TransformSandbox();
+const failoverService = new FailoverService(prisma, redisClient);
+const rateLimiter = new RateLimiter(redisClient);
+const concurrency = new ConcurrencyService(redisClient);
+const fairScheduler = new FairScheduler(redisClient);
+
+const circuitBreaker = new CircuitBreakerService(prisma, redisClient, deliveryService);
+circuitBreaker.startCron(); // Probes open breakers that no new delivery would wake
+const orderingService = new OrderingService(prisma, deliveryService);
+
 console.log("🚀 High-Performance Worker started...");
 
-const worker = new Worker('webhook-queue', async (job) => {
-  const { eventId } = job.data;
+// Delivery status changes (checked against utils/lifecycle.ts) also move the event's roll-up status
+async function setDeliveryStatus(
+  deliveryId: string,
+  eventId: string,
+  status: Status,
+  data: Omit<Prisma.DeliveryUpdateManyMutationInput, 'status'> = {}
+) {
+  await deliveryService.transition(deliveryId, status, data);
+  await deliveryService.refreshEventStatus(eventId);
+}
+
+// The pre-rotation secret keeps signing until its grace period ends
+const activePreviousSecret = (endpoint: { previousSigningSecret: string | null; previousSigningSecretExpiresAt: Date | null }) =>
+  endpoint.previousSigningSecretExpiresAt && endpoint.previousSigningSecretExpiresAt > new Date()
+    ? endpoint.previousSigningSecret
+    : null;
+
+const worker = new Worker('webhook-queue', async (job, token) => {
+  const { deliveryId, eventId, tenant } = job.data;
+
+  // Frees the tenant's place in the fair-share line and records its queue lag (first pickup only)
+  if (tenant) {
+    await fairScheduler.started(tenant, job)
+      .catch(err => console.error('Failed to record queue lag:', err));
+  }
+
+  // Jobs queued before fan-out only carry an eventId: expand them into one job per delivery
+  if (!deliveryId) {
+    const count = await deliveryService.requeue({ webhookEventId: eventId, status: { not: 'COMPLETED' } });
+    console.log(`🔀 Legacy job for event ${eventId} expanded into ${count} deliveries.`);
+    return;
+  }
 
-  const event = await prisma.webhookEvent.findUnique({
-    where: { id: eventId },
-    include: { endpoint: true }
+  const delivery = await prisma.delivery.findUnique({
+    where: { id: deliveryId },
+    include: { destination: true, webhookEvent: { include: { endpoint: true } } }
   });
 
-  if (!event) return;
-
-  // --- Traffic Smoothing Logic (Proportional Delay) ---
-  const limit = event.endpoint.rateLimit || 5;
-  const now = Math.floor(Date.now() / 1000);
-  const key = `rate:${event.endpoint.id}:${now}`;
-  const currentCount = await redisClient.incr(key);
-  if (currentCount === 1) await redisClient.expire(key, 60);
-
-  // Calculate delay based on how many "batches" deep we are
-  // e.g. Limit 5.
-  // Count 1-5: Window 0 -> Delay 0ms
-  // Count 6-10: Window 1 -> Delay 1000ms
-  // Count 11-15: Window 2 -> Delay 2000ms
-  const windowIndex = Math.floor((currentCount - 1) / limit);
-
-  if (windowIndex > 0) {
-    const delayMs = windowIndex * 1000;
-    console.log(`🚦 Smoothing: Delaying request ${event.id} by ${delayMs}ms (Window ${windowIndex})`);
-    await new Promise(resolve => setTimeout(resolve, delayMs));
+  if (!delivery) return;
+
+  // Duplicate or stale job: the delivery was already sent, parked, skipped (e.g. the pending retry
+  // of an ordering head skipped via /ordering/skip) or is being sent right now
+  if (!DeliveryService.isRunnable(delivery)) {
+    console.log(`⏭️ Delivery ${delivery.id} is ${delivery.status}. Skipping job ${job.id}.`);
+    return;
+  }
+
+  const { destination, webhookEvent: event } = delivery;
+
+  // Paused after this job was queued: park it until the destination/endpoint is resumed
+  if (event.endpoint.isPaused || destination.isPaused) {
+    await setDeliveryStatus(delivery.id, event.id, 'PAUSED');
+    console.log(`⏸️ Delivery ${delivery.id} buffered (Destination Paused).`);
+    return;
+  }
+
+  // Maintenance window opened after this job was queued: buffered until the sweep flushes it
+  if (MaintenanceService.active(event.endpoint)) {
+    await setDeliveryStatus(delivery.id, event.id, 'PAUSED');
+    console.log(`🛠️ Delivery ${delivery.id} buffered (Maintenance Window).`);
+    return;
+  }
+
+  // Ordered endpoints: only the head of its (destination, ordering key) sequence goes out
+  const sequence = delivery.orderingKey ? { destinationId: destination.id, orderingKey: delivery.orderingKey } : null;
+  if (sequence && !(await orderingService.admit({ id: delivery.id, webhookEventId: event.id, ...sequence }))) {
+    console.log(`⛓️ Delivery ${delivery.id} waits for an earlier event (Key ${sequence.orderingKey}).`);
+    return;
+  }
+
+  // --- Rate Limiting (GCRA in Redis, shared by every worker process) ---
+  // Over the limit: book the next slot and come back as a delayed job instead of
+  // sleeping in a worker slot. The booked slot is ours, so the woken job doesn't queue again.
+  const hasSlot = job.data.rateSlot?.attempt === job.attemptsMade;
+  if (!hasSlot) {
+    const waitMs = await rateLimiter.reserve(destination.id, destination.rateLimit || 5);
+    if (waitMs > 0) {
+      console.log(`🚦 Rate limit: Rescheduling request ${event.id} in ${waitMs}ms`);
+      await job.updateData({ ...job.data, rateSlot: { attempt: job.attemptsMade } });
+      await job.moveToDelayed(Date.now() + waitMs, token);
+      throw new DelayedError(); // Not a failed attempt
+    }
   }
   // ------------------------------------------
 
+  // Circuit breaker: while the target is down, park deliveries instead of hammering it
+  const breakerConfig = event.endpoint.circuitBreaker as CircuitBreakerConfig | null;
+  const breaker = await circuitBreaker.admit(destination, breakerConfig);
+  if (breaker === 'park') {
+    await setDeliveryStatus(delivery.id, event.id, 'PAUSED');
+    console.log(`🔌 Delivery ${delivery.id} parked (Circuit ${destination.breakerState}).`);
+    return;
+  }
+  if (breaker === 'probe') console.log(`🩺 Delivery ${delivery.id} is probing destination ${destination.id}.`);
+
+  // Max in flight (Destination.concurrency): when full, come back later instead of holding a
+  // worker slot - later each time, so a backlog doesn't keep polling. A breaker probe goes out regardless.
+  const concurrencyConfig = destination.concurrency as ConcurrencyConfig | null;
+  const leaseId = `${job.id}:${job.attemptsMade}`;
+  if (!(await concurrency.acquire(destination.id, concurrencyConfig, leaseId)) && breaker !== 'probe') {
+    const waits = job.data.concurrencyWaits?.attempt === job.attemptsMade ? job.data.concurrencyWaits.count : 0;
+    const delayMs = concurrencyRetryDelayMs(waits);
+    console.log(`🚧 Destination ${destination.id} at its in-flight limit. Rescheduling ${event.id} in ${delayMs}ms`);
+    await job.updateData({ ...job.data, concurrencyWaits: { attempt: job.attemptsMade, count: waits + 1 } });
+    await job.moveToDelayed(Date.now() + delayMs, token);
+    throw new DelayedError();
+  }
+
+  // Lease taken: nothing below may throw before the try, whose finally releases it
   const startTime = Date.now();
+  let deliveryOutcome: DeliveryOutcome | null = 'error'; // Feeds adaptive concurrency
+
+  // Primary URL, or the fallback the destination failed over to (picked inside the try)
+  let target: FailoverTarget | undefined;
+  let requestUrl = destination.url;
+
+  // What went over the wire, for the attempt log
+  let requestHeaders: Record<string, any> | undefined;
+  let response: AxiosResponse<string> | undefined;
+  let sentAt: number | null = null;
+  let answeredAt: number | null = null;
+
+  // OPTIMIZATION 3: Batch Log every attempt - what was sent, what came back and, on failure, why
+  const logAttempt = (error?: any) => batchLogger.add({
+    webhookEventId: event.id,
+    deliveryId: delivery.id,
+    url: requestUrl,
+    success: !error,
+    durationMs: sentAt === null ? null : (answeredAt ?? Date.now()) - sentAt,
+    requestHeaders,
+    responseStatus: response ? response.status : null,
+    responseHeaders: response?.headers as Record<string, any> | undefined,
+    responseBody: typeof response?.data === 'string' ? response.data : null,
+    ...(error ? classifyDeliveryError(error) : {}),
+    attemptedAt: new Date(sentAt ?? Date.now())
+  });
 
   try {
+    // QUEUED / RETRY_SCHEDULED -> PROCESSING (counts the attempt). Throws if another job got here first.
+    await deliveryService.start(delivery.id);
+    await deliveryService.refreshEventStatus(event.id);
+
+    target = await failoverService.pick(destination);
+    requestUrl = target.url;
+
     // Check if URL is Localhost (Fatal in Prod)
-    if (event.endpoint.targetUrl.includes('localhost') || event.endpoint.targetUrl.includes('127.0.0.1')) {
+    if (target.url.includes('localhost') || target.url.includes('127.0.0.1')) {
       console.error("🚨 FATAL: You are trying to hit localhost from inside a Render container. This will never work.");
     }
 
-    // 1. Create a Clean Copy of Headers
-    const headers = { ...(event.headers as Record<string, any> || {}) };
-
-    // 2. Remove "Forbidden" Headers that break routing/payloads
-    delete headers['host'];             // <--- THE FIX
-    delete headers['content-length'];   // Let Axios calculate this
-    delete headers['connection'];
-    delete headers['accept-encoding'];  // Let Axios handle compression
-
-    const response = await axios.post(event.endpoint.targetUrl, event.payload, {
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Webhook-Buffer-ID': event.id,
-        ...headers,
-      },
+    // 1-5. Headers, body, route and the endpoint's transform
+    const { method, url, headers, body, contentType } = await buildOutboundRequest(event, destination, transformSandbox, target.url);
+    requestUrl = url;
+
+    // 6. Sign with our own secret (the provider's signature may not survive the relay)
+    const signingSecrets = [event.endpoint.signingSecret, activePreviousSecret(event.endpoint)]
+      .filter((s): s is string => !!s);
+    const signatureHeaders = signingSecrets.length > 0
+      ? signDelivery(signingSecrets, event.endpoint.signingConfig as SigningConfig, {
+          id: event.id,
+          timestamp: Math.floor(Date.now() / 1000),
+          body
+        })
+      : {};
+
+    requestHeaders = {
+      'X-Webhook-Buffer-ID': event.id,
+      ...headers,
+      ...signatureHeaders,
+      'Content-Type': contentType,
+    };
+
+    sentAt = Date.now();
+    response = await axios.request<string>({
+      method,
+      url,
+      data: body,
+      headers: requestHeaders,
       timeout: 5000,
+      responseType: 'text',      // Raw body for the response rules
+      validateStatus: () => true // Every status is judged below, not by axios
     });
+    answeredAt = Date.now();
 
-    // OPTIMIZATION 3: Batch Log Success
-    batchLogger.add({
-      webhookEventId: event.id,
-      success: true,
-      responseStatus: response.status,
-      responseBody: 'OK', // Don't save full body to save DB space
-      attemptedAt: new Date()
+    // 7. Judge the response (Endpoint.responseRules) - a 200 with {"ok":false} can be a failure too
+    const verdict = classifyResponse(event.endpoint.responseRules as ResponseRules, {
+      status: response.status,
+      headers: response.headers as Record<string, any>,
+      body: typeof response.data === 'string' ? response.data : ''
     });
+    if (verdict.outcome !== 'success') throw new DeliveryResponseError(response.status, verdict);
+    deliveryOutcome = 'ok';
+
+    logAttempt();
 
     // Update status (This is light, so we can keep doing it individually or batch it too)
-    await prisma.webhookEvent.update({
-      where: { id: eventId },
-      data: { status: 'COMPLETED' }
-    });
+    await setDeliveryStatus(delivery.id, event.id, 'COMPLETED', { completedAt: new Date(), lastError: null });
+    // Already delivered - a hiccup here must not trigger a resend
+    await failoverService.recordSuccess(destination, target)
+      .catch(err => console.error('Failed to update failover state:', err));
+    await circuitBreaker.recordSuccess(destination, breaker, breakerConfig)
+      .catch(err => console.error('Failed to update circuit breaker:', err));
+    if (sequence) {
+      await orderingService.release(sequence)
+        .catch(err => console.error('Failed to release the next ordered delivery:', err));
+    }
 
   } catch (error: any) {
-    const status = error.response ? error.response.status : 500;
+    // Lost the race for this delivery - nothing was sent, nothing to log or retry
+    if (error instanceof InvalidTransitionError) {
+      deliveryOutcome = null;
+      console.log(`⏭️ Delivery ${delivery.id} was taken by another job (${error.from}).`);
+      return;
+    }
+
+    const lastError = String(error?.message || error);
+
+    // A broken transform fails the same way on every attempt
+    if (error instanceof TransformError) deliveryOutcome = null; // Never reached the target
+
+    if (error instanceof TransformError && !error.isRetriable) {
+      console.log(`🛑 Transform failed for delivery ${delivery.id} (${error.code}). Failing permanently.`);
+
+      logAttempt(error);
+
+      await setDeliveryStatus(delivery.id, event.id, 'FAILED', { lastError });
+      return;
+    }
+
+    // Network errors have no status - their code (ENOTFOUND, ECONNREFUSED...) says what happened
+    const status = response ? response.status : (error.code || 'no response');
 
     // ============================================================
     // 🧠 EXPONENTIAL RETRY EXTENSION
     // ============================================================
 
-    // Check if this is a "Fatal" error (Client Error 4xx)
+    // Check if this is a "Fatal" error (by default: 4xx except 408/429, see utils/responseRules.ts)
     // We do NOT want to retry these for 15 days!
-    const isFatalError = (status >= 400 && status < 500)
-      && status !== 429 // Too Many Requests -> Retry
-      && status !== 408 // Timeout -> Retry
-
+    const isFatalError = error instanceof DeliveryResponseError && error.isFatal;
 
     if (isFatalError) {
+      deliveryOutcome = 'ok'; // Answered - just not happily
       console.log(`🛑 Non-retriable error (${status}). Failing permanently.`);
 
       // Log Failure
-      batchLogger.add({
-        webhookEventId: event.id,
-        success: false,
-        responseStatus: status,
-        responseBody: error.message,
-        attemptedAt: new Date()
-      });
+      logAttempt(error);
 
       // Update DB
-      await prisma.webhookEvent.update({
-        where: { id: eventId },
-        data: { status: 'FAILED' }
-      });
+      await setDeliveryStatus(delivery.id, event.id, 'FAILED', { lastError });
+
+      // The target did answer, so as far as the breaker is concerned it's up
+      await circuitBreaker.recordSuccess(destination, breaker, breakerConfig)
+        .catch(err => console.error('Failed to update circuit breaker:', err));
       return; // Stop BullMQ retries
     }
 
@@ -131,27 +314,51 @@ const worker = new Worker('webhook-queue', async (job) => {
     // 🔄 RETRY LOGIC (500s, Network Errors, timeouts)
     // ============================================================
 
-    // Calculate how long we will wait (for logging purposes)
-    // Formula: delay * (2 ^ (attemptsMade - 1))
-    const nextDelayMs = 5000 * Math.pow(2, job.attemptsMade);
-    const nextRetryTime = new Date(Date.now() + nextDelayMs);
-
-    console.log(`⚠️ Attempt ${job.attemptsMade + 1} failed. Next retry in ${nextDelayMs / 1000}s (@ ${nextRetryTime.toLocaleTimeString()})`);
+    // The target told us when to come back (Retry-After / reset header). Only jobs carrying
+    // a retry policy use retryPolicyBackoff, which honors it.
+    const retryAfterMs = job.data.retry && error instanceof DeliveryResponseError ? error.retryAfterMs : undefined;
+
+    // Same schedule BullMQ applies (retryPolicyBackoff). Jobs queued before retry policies
+    // don't carry one - resolve it from the endpoint/destination for the log line.
+    const retryPolicy: ResolvedRetryPolicy = job.data.retry
+      || resolveRetryPolicy(event.endpoint.retryPolicy as RetryPolicy, destination.retryPolicy as RetryPolicy);
+    const nextRetryTime = nextRetryAt(retryPolicy, { attemptsMade: job.attemptsMade, queuedAt: job.timestamp, seed: String(job.id) }, retryAfterMs);
+
+    if (nextRetryTime) {
+      const source = retryAfterMs !== undefined ? ' (Retry-After)' : '';
+      console.log(`⚠️ Attempt ${job.attemptsMade + 1} failed. Next retry in ${(nextRetryTime.getTime() - Date.now()) / 1000}s${source} (@ ${nextRetryTime.toLocaleTimeString()})`);
+    } else {
+      console.log(`⚠️ Attempt ${job.attemptsMade + 1} failed. Retry policy exhausted.`);
+    }
 
     // Log the attempt
-    batchLogger.add({
-      webhookEventId: event.id,
-      success: false,
-      responseStatus: status,
-      responseBody: `Failed (Attempt ${job.attemptsMade + 1}): ${error.message}`,
-      attemptedAt: new Date()
-    });
+    logAttempt(error);
+
+    // Counts towards switching this destination to its next URL (a slow transform isn't the URL's fault)
+    if (target && !(error instanceof TransformError)) {
+      await failoverService.recordFailure(destination, target)
+        .catch(err => console.error('Failed to update failover state:', err));
+      await circuitBreaker.recordFailure(destination, breaker, breakerConfig)
+        .catch(err => console.error('Failed to update circuit breaker:', err));
+    }
+
+    if (nextRetryTime) {
+      await setDeliveryStatus(delivery.id, event.id, 'RETRY_SCHEDULED', { nextAttemptAt: nextRetryTime, lastError });
+    } else {
+      // Out of attempts or past maxAgeMs (BullMQ won't retry either)
+      await setDeliveryStatus(delivery.id, event.id, 'FAILED', { lastError });
+    }
 
-    // Throwing error triggers BullMQ's exponential backoff configured in QueueService
+    // Throwing error triggers BullMQ's backoff (retryPolicyBackoff in QueueService)
     throw error;
+  } finally {
+    // Free the in-flight slot; adaptive mode learns from how this went
+    await concurrency.release(destination.id, concurrencyConfig, leaseId, deliveryOutcome, Date.now() - startTime)
+      .catch(err => console.error('Failed to release concurrency slot:', err));
   }
 }, {
   connection,
+  settings: { backoffStrategy: retryPolicyBackoff },
   concurrency: 20 // <--- OPTIMIZATION 4: Process 20 jobs at once (Safe for 512MB Free Tier)
 });
 
@@ -166,10 +373,11 @@ worker.on('failed', async (job, err) => {
       console.log(`💀 Job ${job.id} is dead. Marking as FAILED in DB.`);
 
       try {
-        await prisma.webhookEvent.update({
-          where: { id: job.data.eventId },
-          data: { status: 'FAILED' }
-        });
+        // Usually already FAILED by the handler; this catches jobs that died before getting that far
+        const delivery = await prisma.delivery.findUnique({ where: { id: job.data.deliveryId } });
+        if (delivery && canTransition(delivery.status, 'FAILED')) {
+          await setDeliveryStatus(delivery.id, delivery.webhookEventId, 'FAILED', { lastError: err.message });
+        }
       } catch (dbErr) {
         console.error('Failed to update status to FAILED:', dbErr);
       }
@@ -182,5 +390,6 @@ process.on('SIGINT', async () => {
   console.log('Closing worker...');
   await batchLogger.flush();
   await worker.close();
+  await transformSandbox.close();
   process.exit(0);
 });
\ No newline at end of file
@@ -0,0 +1,211 @@
+// test/services/ordering-checks.ts
+// OrderingService skip/release against an in-memory stand-in for the Prisma calls it makes.
+// Run: npx ts-node test/services/ordering-checks.ts
+import { Status } from '@prisma/client';
+import { DeliveryService } from '../../src/core/services/DeliveryService';
+import { OrderingService } from '../../src/core/services/OrderingService';
+import { InvalidTransitionError } from '../../src/core/errors/InvalidTransitionError';
+import { STALLED_PROCESSING_MS } from '../../src/utils/lifecycle';
+
+let failures = 0;
+
+function check(name: string, actual: boolean, expected: boolean) {
+  const ok = actual === expected;
+  if (!ok) failures++;
+  console.log(`${ok ? '✅' : '❌'} ${name}`);
+}
+
+interface Row {
+  id: string;
+  webhookEventId: string;
+  destinationId: string;
+  orderingKey: string | null;
+  status: Status;
+  attemptCount: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  lastError: string | null;
+  completedAt: Date | null;
+  updatedAt: Date;
+  receivedAt: Date; // The event's, for head ordering
+}
+
+// Just the where clauses these services use: equality, in, not, lt, AND, OR
+function matches(row: any, where: any = {}): boolean {
+  return Object.entries(where).every(([field, condition]: [string, any]) => {
+    if (field === 'AND') return condition.every((w: any) => matches(row, w));
+    if (field === 'OR') return condition.some((w: any) => matches(row, w));
+    if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+      if ('in' in condition && !condition.in.includes(row[field])) return false;
+      if ('not' in condition && row[field] === condition.not) return false;
+      if ('lt' in condition && !(row[field] < condition.lt)) return false;
+      return true;
+    }
+    return row[field] === condition;
+  });
+}
+
+function apply(row: any, data: any) {
+  for (const [field, value] of Object.entries(data)) {
+    row[field] = value && typeof value === 'object' && 'increment' in (value as any)
+      ? row[field] + (value as any).increment
+      : value;
+  }
+  row.updatedAt = new Date();
+}
+
+function fakePrisma(rows: Row[]) {
+  const withDestination = (row: Row) => ({
+    ...row,
+    destination: { retryPolicy: null, endpoint: { retryPolicy: null, userId: 'tenant' } }
+  });
+
+  const client: any = {
+    $transaction: async (fn: (tx: any) => Promise<any>) => fn(client),
+    $executeRaw: async () => 0, // Advisory lock
+    // requeue()'s compare-and-set UPDATE ... RETURNING: values are the joined ids, the allowed statuses,
+    // then the cutoff for stalled PROCESSING rows
+    $queryRaw: async (strings: TemplateStringsArray, ...values: any[]) => {
+      const [ids, sources] = values.map(v => v.values);
+      const stalledBefore: Date = values[2];
+      return rows
+        .filter(r => ids.includes(r.id)
+          && (sources.includes(r.status) || (r.status === 'PROCESSING' && r.updatedAt < stalledBefore)))
+        .map(r => {
+          apply(r, { status: 'QUEUED', nextAttemptAt: null, completedAt: null });
+          return { id: r.id, webhookEventId: r.webhookEventId };
+        });
+    },
+    delivery: {
+      findUnique: async ({ where }: any) => rows.find(r => r.id === where.id) || null,
+      findFirst: async ({ where }: any) =>
+        rows.filter(r => matches(r, where))
+          .sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime() || a.webhookEventId.localeCompare(b.webhookEventId))[0] || null,
+      findMany: async ({ where }: any) => rows.filter(r => matches(r, where)).map(withDestination),
+      updateMany: async ({ where, data }: any) => {
+        const hit = rows.filter(r => matches(r, where));
+        hit.forEach(r => apply(r, data));
+        return { count: hit.length };
+      }
+    },
+    webhookEvent: {
+      update: async () => ({}),
+      updateMany: async () => ({ count: 0 })
+    }
+  };
+  return client;
+}
+
+function sequenceOf(statuses: Status[]): Row[] {
+  return statuses.map((status, i) => ({
+    id: `d${i + 1}`,
+    webhookEventId: `e${i + 1}`,
+    destinationId: 'dest',
+    orderingKey: 'order-1',
+    status,
+    attemptCount: 0,
+    nextAttemptAt: null,
+    lastAttemptAt: null,
+    lastError: null,
+    completedAt: null,
+    updatedAt: new Date(),
+    receivedAt: new Date(Date.UTC(2026, 0, 1, 0, 0, i))
+  }));
+}
+
+function services(rows: Row[]) {
+  const queued: string[] = [];
+  const queue: any = { addJobsBulk: async (jobs: any[]) => queued.push(...jobs.map(j => j.data.deliveryId)) };
+  const prisma = fakePrisma(rows);
+  const deliveryService = new DeliveryService(prisma, queue);
+  return { queued, deliveryService, ordering: new OrderingService(prisma, deliveryService) };
+}
+
+const sequence = { destinationId: 'dest', orderingKey: 'order-1' };
+const status = (rows: Row[], id: string) => rows.find(r => r.id === id)!.status;
+
+(async () => {
+  // 1. Skipping a FAILED head sends the next one and leaves the rest waiting
+  {
+    const rows = sequenceOf(['FAILED', 'BLOCKED', 'BLOCKED']);
+    const { ordering, queued } = services(rows);
+    const skipped = await ordering.skipHead(sequence);
+    check('skip: returns the old head', skipped?.id === 'd1', true);
+    check('skip: head is SKIPPED', status(rows, 'd1') === 'SKIPPED', true);
+    check('skip: next delivery queued', status(rows, 'd2') === 'QUEUED' && queued.join() === 'd2', true);
+    check('skip: the rest stay BLOCKED', status(rows, 'd3') === 'BLOCKED', true);
+
+    // The skipped head's retry job fires later
+    check('skip: stale job is not runnable', DeliveryService.isRunnable(rows[0]), false);
+    check('skip: stale job is not admitted', await ordering.admit({ id: 'd1', webhookEventId: 'e1', ...sequence }), false);
+    check('skip: skipped head stays SKIPPED', status(rows, 'd1') === 'SKIPPED', true);
+  }
+
+  // 2. A head with a retry pending can be skipped too
+  {
+    const rows = sequenceOf(['RETRY_SCHEDULED', 'BLOCKED']);
+    const { ordering, queued } = services(rows);
+    await ordering.skipHead(sequence);
+    check('skip retrying head: SKIPPED', status(rows, 'd1') === 'SKIPPED', true);
+    check('skip retrying head: next queued', queued.join() === 'd2', true);
+  }
+
+  // 3. A head being sent right now can't be skipped
+  {
+    const rows = sequenceOf(['PROCESSING', 'BLOCKED']);
+    const { ordering, queued } = services(rows);
+    let thrown: any;
+    try { await ordering.skipHead(sequence); } catch (err) { thrown = err; }
+    check('skip in flight: InvalidTransitionError', thrown instanceof InvalidTransitionError && thrown.from === 'PROCESSING', true);
+    check('skip in flight: nothing queued', queued.length === 0 && status(rows, 'd2') === 'BLOCKED', true);
+  }
+
+  // 4. Nothing to skip
+  {
+    const { ordering } = services(sequenceOf(['COMPLETED', 'SKIPPED']));
+    check('skip empty sequence: null', (await ordering.skipHead(sequence)) === null, true);
+  }
+
+  // 5. Admit: only the head goes out, later ones wait as BLOCKED
+  {
+    const rows = sequenceOf(['QUEUED', 'QUEUED']);
+    const { ordering } = services(rows);
+    check('admit: head goes out', await ordering.admit({ id: 'd1', webhookEventId: 'e1', ...sequence }), true);
+    check('admit: second waits', await ordering.admit({ id: 'd2', webhookEventId: 'e2', ...sequence }), false);
+    check('admit: second is BLOCKED', status(rows, 'd2') === 'BLOCKED', true);
+  }
+
+  // 6. Release after the head completes queues the next one exactly once
+  {
+    const rows = sequenceOf(['COMPLETED', 'BLOCKED', 'BLOCKED']);
+    const { ordering, queued } = services(rows);
+    await Promise.all([ordering.release(sequence), ordering.release(sequence)]);
+    check('release: next queued once', queued.join() === 'd2', true);
+    check('release: next is QUEUED', status(rows, 'd2') === 'QUEUED', true);
+    await ordering.release(sequence);
+    check('release: head not done yet - nothing more', queued.join() === 'd2' && status(rows, 'd3') === 'BLOCKED', true);
+  }
+
+  // 7. A head that's BLOCKED itself (missed its release) is queued by the next admit
+  {
+    const rows = sequenceOf(['BLOCKED', 'QUEUED']);
+    const { ordering, queued } = services(rows);
+    check('stalled head: newcomer waits', await ordering.admit({ id: 'd2', webhookEventId: 'e2', ...sequence }), false);
+    check('stalled head: head queued again', status(rows, 'd1') === 'QUEUED' && queued.join() === 'd1', true);
+  }
+
+  // 8. A head left PROCESSING with no job (its worker failed before recording the outcome) is queued
+  // again by the stalled sweep, and can be skipped after that
+  {
+    const rows = sequenceOf(['PROCESSING', 'BLOCKED']);
+    const { ordering, queued, deliveryService } = services(rows);
+    check('stuck head: still in flight at first', await deliveryService.recoverStalled() === 0, true);
+    rows[0].updatedAt = new Date(Date.now() - STALLED_PROCESSING_MS - 1000);
+    check('stuck head: sweep re-queues it', await deliveryService.recoverStalled() === 1 && queued.join() === 'd1', true);
+    check('stuck head: QUEUED again', status(rows, 'd1') === 'QUEUED', true);
+    check('stuck head: skippable now', (await ordering.skipHead(sequence))?.id === 'd1' && status(rows, 'd2') === 'QUEUED', true);
+  }
+
+  console.log(failures === 0 ? '\n✅ All checks passed' : `\n❌ ${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+})();
@@ -0,0 +1,67 @@
+// test/services/rate-limiter-checks.ts
+// GCRA limiter (RateLimiter) against ioredis-mock, which runs the Lua script.
+// Run: npx ts-node test/services/rate-limiter-checks.ts
+import RedisMock from 'ioredis-mock';
+import { Redis } from 'ioredis';
+import { RateLimiter } from '../../src/infrastructure/redis/RateLimiter';
+
+let failures = 0;
+
+function check(name: string, actual: boolean, expected: boolean) {
+  const ok = actual === expected;
+  if (!ok) failures++;
+  console.log(`${ok ? '✅' : '❌'} ${name}`);
+}
+
+// The script reads Redis' TIME, which ioredis-mock takes from `new Date()` (whole seconds) and
+// process.hrtime (microseconds): pin both so every wait is exact
+let clock = Date.UTC(2026, 0, 1);
+const RealDate = Date;
+class FrozenDate extends RealDate {
+  constructor(...args: any[]) {
+    if (args.length > 0) super(...(args as [number]));
+    else super(clock);
+  }
+  static now() { return clock; }
+}
+(global as any).Date = FrozenDate;
+process.hrtime = (() => [0, 0]) as unknown as NodeJS.HRTime;
+
+const redis = new RedisMock() as unknown as Redis;
+const limiter = new RateLimiter(redis);
+
+const reserveMany = async (key: string, count: number, perSecond: number, burst?: number) => {
+  const waits: number[] = [];
+  for (let i = 0; i < count; i++) waits.push(await limiter.reserve(key, perSecond, burst));
+  return waits.join(',');
+};
+
+(async () => {
+  // 1. Steady rate: 2/s without burst -> one slot every 500ms, booked in order
+  check('rate: first request goes now', (await reserveMany('steady', 1, 2)) === '0', true);
+  check('rate: next ones wait their slot', (await reserveMany('steady', 3, 2)) === '500,1000,1500', true);
+
+  // 2. Burst: 3 back to back, then the schedule
+  check('burst: 3 at once, then 500ms apart', (await reserveMany('burst', 5, 2, 3)) === '0,0,0,500,1000', true);
+
+  // 3. Time passing frees slots
+  clock += 1000;
+  check('burst: a second later, two slots shift', (await reserveMany('burst', 1, 2, 3)) === '500', true);
+
+  // 4. Idle long enough and the full burst is back
+  clock += 60 * 1000;
+  check('idle: burst restored', (await reserveMany('burst', 3, 2, 3)) === '0,0,0', true);
+
+  // 5. Keys don't share a budget
+  check('keys: independent', (await reserveMany('other', 1, 2)) === '0', true);
+
+  // 6. Slow limits: 0.5/s -> 2s apart
+  check('rate: below 1/s', (await reserveMany('slow', 3, 0.5)) === '0,2000,4000', true);
+
+  // 7. The key expires once its schedule is in the past (no unbounded keys)
+  const ttl = await redis.pttl('ratelimit:slow');
+  check('expiry: ttl covers the booked schedule', ttl > 4000 && ttl <= 8000, true);
+
+  console.log(failures === 0 ? '\n✅ All checks passed' : `\n❌ ${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+})();
@@ -0,0 +1,169 @@
+// test/utils/lifecycle-checks.ts
+// The delivery state machine: transition table, event roll-up, and the compare-and-set moves
+// DeliveryService makes against an in-memory stand-in for Prisma.
+// Run: npx ts-node test/utils/lifecycle-checks.ts
+import { Status } from '@prisma/client';
+import { DELIVERY_TRANSITIONS, STALLED_PROCESSING_MS, canTransition, transitionSources } from '../../src/utils/lifecycle';
+import { DeliveryService } from '../../src/core/services/DeliveryService';
+import { InvalidTransitionError } from '../../src/core/errors/InvalidTransitionError';
+
+let failures = 0;
+
+function check(name: string, actual: boolean, expected: boolean) {
+  const ok = actual === expected;
+  if (!ok) failures++;
+  console.log(`${ok ? '✅' : '❌'} ${name}`);
+}
+
+const STATUSES = Object.keys(DELIVERY_TRANSITIONS) as Status[];
+
+interface Row {
+  id: string;
+  status: Status;
+  attemptCount: number;
+  nextAttemptAt: Date | null;
+  updatedAt: Date;
+}
+
+// Just what transition() and start() use: equality, in, lt, OR
+function matches(row: any, where: any): boolean {
+  return Object.entries(where).every(([field, condition]: [string, any]) => {
+    if (field === 'OR') return condition.some((w: any) => matches(row, w));
+    if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+      if ('in' in condition && !condition.in.includes(row[field])) return false;
+      if ('lt' in condition && !(row[field] < condition.lt)) return false;
+      return true;
+    }
+    return row[field] === condition;
+  });
+}
+
+function fakePrisma(rows: Row[]): any {
+  return {
+    delivery: {
+      findUnique: async ({ where }: any) => rows.find(r => r.id === where.id) || null,
+      updateMany: async ({ where, data }: any) => {
+        const hit = rows.filter(r => matches(r, where));
+        for (const row of hit) {
+          for (const [field, value] of Object.entries(data)) {
+            (row as any)[field] = value && typeof value === 'object' && 'increment' in (value as any)
+              ? (row as any)[field] + (value as any).increment
+              : value;
+          }
+          row.updatedAt = new Date();
+        }
+        return { count: hit.length };
+      }
+    }
+  };
+}
+
+function delivery(status: Status, updatedAt = new Date()): Row {
+  return { id: 'd1', status, attemptCount: 0, nextAttemptAt: new Date(), updatedAt };
+}
+
+async function throwsTransition(fn: () => Promise<unknown>, from: Status | null): Promise<boolean> {
+  try {
+    await fn();
+    return false;
+  } catch (err) {
+    return err instanceof InvalidTransitionError && err.from === from;
+  }
+}
+
+(async () => {
+  // 1. Transition table
+  {
+    const happyPath: [Status, Status][] = [['QUEUED', 'PROCESSING'], ['PROCESSING', 'COMPLETED']];
+    const retryPath: [Status, Status][] = [['PROCESSING', 'RETRY_SCHEDULED'], ['RETRY_SCHEDULED', 'PROCESSING'], ['PROCESSING', 'FAILED']];
+    check('table: happy path allowed', happyPath.every(([from, to]) => canTransition(from, to)), true);
+    check('table: retry path allowed', retryPath.every(([from, to]) => canTransition(from, to)), true);
+    check('table: stalled PROCESSING may run again', canTransition('PROCESSING', 'PROCESSING'), true);
+    check('table: job died before sending (QUEUED -> FAILED)', canTransition('QUEUED', 'FAILED'), true);
+
+    check('table: no skipping a delivery being sent', canTransition('PROCESSING', 'SKIPPED'), false);
+    check('table: no replay while in flight', canTransition('PROCESSING', 'QUEUED') || canTransition('RETRY_SCHEDULED', 'QUEUED'), false);
+    check('table: no second job for a QUEUED delivery', canTransition('QUEUED', 'QUEUED'), false);
+    check('table: COMPLETED only replays', DELIVERY_TRANSITIONS.COMPLETED.join() === 'QUEUED', true);
+    check('table: PAUSED and BLOCKED never send directly', canTransition('PAUSED', 'PROCESSING') || canTransition('BLOCKED', 'PROCESSING'), false);
+    check('table: nothing goes to FILTERED', STATUSES.some(from => canTransition(from, 'FILTERED')), false);
+
+    const settled: Status[] = ['COMPLETED', 'FAILED', 'SKIPPED', 'FILTERED', 'PAUSED', 'BLOCKED'];
+    check('table: every settled status can be replayed', settled.every(from => canTransition(from, 'QUEUED')), true);
+    check('table: every target is a known status', STATUSES.every(from => DELIVERY_TRANSITIONS[from].every(to => STATUSES.includes(to))), true);
+
+    check('sources: QUEUED', transitionSources('QUEUED').sort().join() === [...settled].sort().join(), true);
+    check('sources: SKIPPED', transitionSources('SKIPPED').sort().join() === ['BLOCKED', 'FAILED', 'PAUSED', 'QUEUED', 'RETRY_SCHEDULED'].join(), true);
+    check('sources: COMPLETED', transitionSources('COMPLETED').join() === 'PROCESSING', true);
+  }
+
+  // 2. Event roll-up
+  {
+    const rollup = DeliveryService.rollup;
+    check('rollup: no deliveries', rollup([]) === null, true);
+    check('rollup: all delivered', rollup(['COMPLETED', 'COMPLETED']) === 'COMPLETED', true);
+    check('rollup: in flight wins', rollup(['COMPLETED', 'FAILED', 'QUEUED', 'PROCESSING']) === 'PROCESSING', true);
+    check('rollup: queued before retry-scheduled', rollup(['RETRY_SCHEDULED', 'QUEUED']) === 'QUEUED', true);
+    check('rollup: retry-scheduled before blocked', rollup(['BLOCKED', 'RETRY_SCHEDULED']) === 'RETRY_SCHEDULED', true);
+    check('rollup: blocked before paused', rollup(['PAUSED', 'BLOCKED']) === 'BLOCKED', true);
+    check('rollup: paused before failed', rollup(['FAILED', 'PAUSED']) === 'PAUSED', true);
+    check('rollup: failed before skipped', rollup(['SKIPPED', 'FAILED', 'COMPLETED']) === 'FAILED', true);
+    check('rollup: skipped before completed', rollup(['COMPLETED', 'SKIPPED']) === 'SKIPPED', true);
+    check('rollup: filtered ignored', rollup(['FILTERED', 'COMPLETED']) === 'COMPLETED', true);
+    check('rollup: filtered everywhere', rollup(['FILTERED', 'FILTERED']) === 'FILTERED', true);
+  }
+
+  // 3. Whether a job may send
+  {
+    const now = Date.now();
+    const stalled = new Date(now - STALLED_PROCESSING_MS - 1);
+    check('runnable: QUEUED', DeliveryService.isRunnable({ status: 'QUEUED', updatedAt: new Date(now) }, now), true);
+    check('runnable: RETRY_SCHEDULED', DeliveryService.isRunnable({ status: 'RETRY_SCHEDULED', updatedAt: new Date(now) }, now), true);
+    check('runnable: PROCESSING elsewhere', DeliveryService.isRunnable({ status: 'PROCESSING', updatedAt: new Date(now - 1000) }, now), false);
+    check('runnable: stalled PROCESSING', DeliveryService.isRunnable({ status: 'PROCESSING', updatedAt: stalled }, now), true);
+    check('runnable: skipped or paused while waiting', ['SKIPPED', 'PAUSED', 'BLOCKED', 'COMPLETED', 'FAILED']
+      .some(s => DeliveryService.isRunnable({ status: s as Status, updatedAt: stalled }, now)), false);
+  }
+
+  // 4. transition(): compare-and-set against the table
+  {
+    const rows = [delivery('PROCESSING')];
+    const service = new DeliveryService(fakePrisma(rows), {} as any);
+    const next = new Date('2026-10-19T12:00:00Z');
+
+    await service.transition('d1', 'RETRY_SCHEDULED', { nextAttemptAt: next });
+    check('transition: allowed move applied', rows[0].status === 'RETRY_SCHEDULED' && rows[0].nextAttemptAt === next, true);
+
+    check('transition: disallowed move throws with the current status',
+      await throwsTransition(() => service.transition('d1', 'COMPLETED'), 'RETRY_SCHEDULED'), true);
+    check('transition: disallowed move leaves the row alone', rows[0].status === 'RETRY_SCHEDULED', true);
+
+    await service.transition('d1', 'SKIPPED');
+    check('transition: nextAttemptAt cleared by default', rows[0].status === 'SKIPPED' && rows[0].nextAttemptAt === null, true);
+
+    check('transition: missing delivery throws with from null',
+      await throwsTransition(() => service.transition('nope', 'QUEUED'), null), true);
+  }
+
+  // 5. start(): counts the attempt, takes over PROCESSING only once stalled
+  {
+    const rows = [delivery('QUEUED')];
+    const service = new DeliveryService(fakePrisma(rows), {} as any);
+
+    await service.start('d1');
+    check('start: QUEUED -> PROCESSING, attempt counted', rows[0].status === 'PROCESSING' && rows[0].attemptCount === 1, true);
+
+    check('start: a live PROCESSING is not taken over', await throwsTransition(() => service.start('d1'), 'PROCESSING'), true);
+    check('start: attempt not counted twice', rows[0].attemptCount === 1, true);
+
+    rows[0].updatedAt = new Date(Date.now() - STALLED_PROCESSING_MS - 1000);
+    await service.start('d1');
+    check('start: stalled PROCESSING taken over', rows[0].attemptCount === 2, true);
+
+    rows[0].status = 'SKIPPED';
+    check('start: a skipped delivery is never sent', await throwsTransition(() => service.start('d1'), 'SKIPPED'), true);
+  }
+
+  console.log(failures === 0 ? '\n✅ All checks passed' : `\n❌ ${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+})();
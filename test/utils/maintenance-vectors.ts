@@ -0,0 +1,118 @@
+// test/utils/maintenance-vectors.ts
+// Maintenance windows across DST changes, one-off windows and early resume.
+// Run: npx ts-node test/utils/maintenance-vectors.ts
+import {
+  MaintenanceWindow,
+  activeMaintenance,
+  upcomingMaintenance,
+  validateMaintenanceWindows
+} from '../../src/utils/maintenance';
+
+let failures = 0;
+
+function check(name: string, actual: boolean, expected: boolean) {
+  const ok = actual === expected;
+  if (!ok) failures++;
+  console.log(`${ok ? '✅' : '❌'} ${name}`);
+}
+
+const at = (iso: string) => new Date(iso);
+const iso = (date: Date | undefined) => date?.toISOString();
+
+// 1. Spring forward: America/New_York skips 02:00-03:00 on 2026-03-08
+{
+  const windows: MaintenanceWindow[] = [{ cron: '30 2 * * *', durationMinutes: 60, timezone: 'America/New_York' }];
+  const [skipped] = upcomingMaintenance(windows, at('2026-03-08T05:00:00Z'), 1);
+  check('DST gap: 02:30 runs just after the jump (03:30 EDT)', iso(skipped?.start) === '2026-03-08T07:30:00.000Z', true);
+  check('DST gap: still lasts 60 minutes', iso(skipped?.end) === '2026-03-08T08:30:00.000Z', true);
+  check('DST gap: open at 03:45 EDT', activeMaintenance(windows, null, at('2026-03-08T07:45:00Z')) !== null, true);
+  check('DST gap: closed at 03:15 EDT', activeMaintenance(windows, null, at('2026-03-08T07:15:00Z')) === null, true);
+
+  const [dayBefore, dayAfter] = upcomingMaintenance(windows, at('2026-03-07T00:00:00Z'), 3).filter((_, i) => i !== 1);
+  check('DST gap: 02:30 EST the day before', iso(dayBefore?.start) === '2026-03-07T07:30:00.000Z', true);
+  check('DST gap: 02:30 EDT the day after', iso(dayAfter?.start) === '2026-03-09T06:30:00.000Z', true);
+}
+
+// 2. Fall back: America/New_York runs 01:00-02:00 twice on 2026-11-01
+{
+  const windows: MaintenanceWindow[] = [{ cron: '30 1 * * *', durationMinutes: 20, timezone: 'America/New_York' }];
+  const occurrences = upcomingMaintenance(windows, at('2026-11-01T00:00:00Z'), 5, 1);
+  check('DST overlap: one window that night', occurrences.length === 1, true);
+  check('DST overlap: the first 01:30 (EDT)', iso(occurrences[0]?.start) === '2026-11-01T05:30:00.000Z', true);
+  check('DST overlap: closed during the repeated 01:30 (EST)', activeMaintenance(windows, null, at('2026-11-01T06:35:00Z')) === null, true);
+
+  const oneOff = [{ start: '2026-11-01T01:30', end: '2026-11-01T03:00', timezone: 'America/New_York' }];
+  check('DST overlap: one-off start read as the first 01:30', iso(upcomingMaintenance(oneOff, at('2026-11-01T00:00:00Z'))[0]?.start) === '2026-11-01T05:30:00.000Z', true);
+}
+
+// 3. One-off windows
+{
+  const local: MaintenanceWindow[] = [{ start: '2026-11-03T22:00', end: '2026-11-04T01:00', timezone: 'America/New_York', reason: 'DB migration' }];
+  const open = activeMaintenance(local, null, at('2026-11-04T04:00:00Z'));
+  check('one-off: local times read in its zone', iso(open?.start) === '2026-11-04T03:00:00.000Z' && iso(open?.end) === '2026-11-04T06:00:00.000Z', true);
+  check('one-off: carries its reason', open?.reason === 'DB migration', true);
+  check('one-off: closed just before', activeMaintenance(local, null, at('2026-11-04T02:59:59Z')) === null, true);
+  check('one-off: closed at its end', activeMaintenance(local, null, at('2026-11-04T06:00:00Z')) === null, true);
+
+  const withOffset: MaintenanceWindow[] = [{ start: '2026-11-03T22:00:00Z', end: '2026-11-04T01:00:00Z', timezone: 'Asia/Tokyo' }];
+  check('one-off: an explicit offset wins over timezone', iso(upcomingMaintenance(withOffset, at('2026-11-01T00:00:00Z'))[0]?.start) === '2026-11-03T22:00:00.000Z', true);
+  check('one-off: past windows are not upcoming', upcomingMaintenance(withOffset, at('2026-11-05T00:00:00Z')).length === 0, true);
+}
+
+// 4. Early resume: Sundays 02:00-03:30 Paris time
+{
+  const windows: MaintenanceWindow[] = [{ cron: '0 2 * * SUN', durationMinutes: 90, timezone: 'Europe/Paris' }];
+  const resumedAt = at('2026-10-18T00:40:00Z');
+  check('resume: window open before resuming', activeMaintenance(windows, null, at('2026-10-18T00:45:00Z')) !== null, true);
+  check('resume: resumed window stays closed', activeMaintenance(windows, resumedAt, at('2026-10-18T00:45:00Z')) === null, true);
+
+  // 2026-10-25 is the night Paris falls back; 02:00 is taken in CEST
+  const next = activeMaintenance(windows, resumedAt, at('2026-10-25T00:30:00Z'));
+  check('resume: next window opens again', iso(next?.start) === '2026-10-25T00:00:00.000Z', true);
+  check('resume: a window starting right at the resume is over too', activeMaintenance(windows, at('2026-10-25T00:00:00Z'), at('2026-10-25T00:30:00Z')) === null, true);
+}
+
+// 5. Several windows
+{
+  const windows: MaintenanceWindow[] = [
+    { cron: '0 2 * * SUN', durationMinutes: 90, timezone: 'Europe/Paris' },
+    { start: '2026-10-18T00:30:00Z', end: '2026-10-18T04:00:00Z', reason: 'longer' },
+    { cron: '*/15 * * * *', durationMinutes: 5 }
+  ];
+  const open = activeMaintenance(windows, null, at('2026-10-18T01:00:00Z'));
+  check('overlap: the one that lasts longest is reported', open?.window === 1 && open?.reason === 'longer', true);
+
+  const upcoming = upcomingMaintenance(windows, at('2026-10-18T00:00:00Z'), 3);
+  check('upcoming: soonest first, up to the limit', upcoming.map(o => iso(o.start)).join() ===
+    ['2026-10-18T00:15:00.000Z', '2026-10-18T00:30:00.000Z', '2026-10-18T00:30:00.000Z'].join(), true);
+  check('upcoming: beyond the horizon left out', upcomingMaintenance([windows[0]], at('2026-10-18T12:00:00Z'), 5, 6).length === 0, true);
+  check('no windows: nothing open', activeMaintenance(null, null) === null && upcomingMaintenance(undefined).length === 0, true);
+}
+
+// 6. Cron day fields: restricted day-of-month and day-of-week match either way
+{
+  const [first, second] = upcomingMaintenance([{ cron: '0 9 13 * FRI', durationMinutes: 10 }], at('2026-11-01T00:00:00Z'), 2);
+  check('cron: Friday 2026-11-06 matches by weekday', iso(first?.start) === '2026-11-06T09:00:00.000Z', true);
+  check('cron: Friday 13th matches once', iso(second?.start) === '2026-11-13T09:00:00.000Z', true);
+}
+
+// 7. Validation
+{
+  const valid = validateMaintenanceWindows([
+    { cron: '0 2 * * SUN', durationMinutes: 90, timezone: 'Europe/Paris' },
+    { start: '2026-11-03T22:00', end: '2026-11-04T01:00', timezone: 'America/New_York' }
+  ]);
+  check('valid: cron and one-off', valid === null, true);
+  check('valid: null clears the windows', validateMaintenanceWindows(null) === null, true);
+  check('invalid: not an array', validateMaintenanceWindows({ cron: '* * * * *' }) !== null, true);
+  check('invalid: cron and start together', validateMaintenanceWindows([{ cron: '* * * * *', durationMinutes: 5, start: '2026-11-03T22:00' }]) !== null, true);
+  check('invalid: minute out of range', validateMaintenanceWindows([{ cron: '61 * * * *', durationMinutes: 5 }]) !== null, true);
+  check('invalid: four cron fields', validateMaintenanceWindows([{ cron: '0 2 * *', durationMinutes: 5 }]) !== null, true);
+  check('invalid: zero duration', validateMaintenanceWindows([{ cron: '0 2 * * *', durationMinutes: 0 }]) !== null, true);
+  check('invalid: unknown time zone', validateMaintenanceWindows([{ cron: '0 2 * * *', durationMinutes: 5, timezone: 'Mars/Olympus' }]) !== null, true);
+  check('invalid: end before start', validateMaintenanceWindows([{ start: '2026-11-04T01:00Z', end: '2026-11-03T22:00Z' }]) !== null, true);
+  check('invalid: one-off over 30 days', validateMaintenanceWindows([{ start: '2026-11-01T00:00Z', end: '2026-12-15T00:00Z' }]) !== null, true);
+}
+
+console.log(failures === 0 ? '\n✅ All checks passed' : `\n❌ ${failures} check(s) failed`);
+process.exit(failures === 0 ? 0 : 1);
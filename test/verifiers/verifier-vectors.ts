@@ -0,0 +1,240 @@
+// test/verifiers/verifier-vectors.ts
+// Known-good signatures (from each provider's docs where published).
+// Run: npx ts-node test/verifiers/verifier-vectors.ts
+import crypto from 'crypto';
+import { IngestionError } from '../../src/core/errors/IngestionError';
+import { StripeVerifier } from '../../src/infrastructure/verifiers/StripeVerifier';
+import { GithubVerifier } from '../../src/infrastructure/verifiers/GithubVerifier';
+import { GitlabVerifier } from '../../src/infrastructure/verifiers/GitlabVerifier';
+import { ShopifyVerifier } from '../../src/infrastructure/verifiers/ShopifyVerifier';
+import { SlackVerifier } from '../../src/infrastructure/verifiers/SlackVerifier';
+import { TwilioVerifier } from '../../src/infrastructure/verifiers/TwilioVerifier';
+import { StandardWebhooksVerifier } from '../../src/infrastructure/verifiers/StandardWebhooksVerifier';
+import { HmacVerifier } from '../../src/infrastructure/verifiers/HmacVerifier';
+import { VerifierFactory } from '../../src/infrastructure/verifiers/VerifierFactory';
+import { MetaVerifier } from '../../src/infrastructure/verifiers/MetaVerifier';
+import { ZoomVerifier } from '../../src/infrastructure/verifiers/ZoomVerifier';
+import { HandshakeService } from '../../src/core/services/HandshakeService';
+import { signDelivery, verifyDelivery } from '../../src/utils/outboundSignature';
+
+let failures = 0;
+
+function check(name: string, actual: boolean, expected: boolean) {
+  const ok = actual === expected;
+  if (!ok) failures++;
+  console.log(`${ok ? '✅' : '❌'} ${name}`);
+}
+
+// Stale timestamps throw so they can be told apart from a bad signature
+function checkThrows(name: string, fn: () => unknown, code: string) {
+  let thrown: any;
+  try { fn(); } catch (err) { thrown = err; }
+  check(name, thrown instanceof IngestionError && thrown.code === code, true);
+}
+
+// 1. GitHub (docs.github.com "Validating webhook deliveries")
+const github = new GithubVerifier();
+const githubSecret = "It's a Secret to Everybody";
+const githubSig = 'sha256=757107ea0eb2509fc211221cce984b8a37570b6d7586c22c46f4379c8b043e17';
+check('github: valid signature', github.verify({}, { 'x-hub-signature-256': githubSig }, githubSecret, 'Hello, World!'), true);
+check('github: tampered body', github.verify({}, { 'x-hub-signature-256': githubSig }, githubSecret, 'Hello, World?'), false);
+check('github: missing prefix', github.verify({}, { 'x-hub-signature-256': githubSig.slice(7) }, githubSecret, 'Hello, World!'), false);
+
+// 2. GitLab (plain token comparison)
+const gitlab = new GitlabVerifier();
+check('gitlab: matching token', gitlab.verify({}, { 'x-gitlab-token': 'glsecret' }, 'glsecret', ''), true);
+check('gitlab: wrong token', gitlab.verify({}, { 'x-gitlab-token': 'glsecreT' }, 'glsecret', ''), false);
+check('gitlab: missing header', gitlab.verify({}, {}, 'glsecret', ''), false);
+
+// 3. Shopify (base64 digest)
+const shopify = new ShopifyVerifier();
+const shopifyBody = '{"id":820982911946154508,"email":"jon@doe.ca"}';
+const shopifySig = 'fp5HwmAHEVGQQwJU1KRpk57Ts2YHF6/TLOCczCtB5bs=';
+check('shopify: valid signature', shopify.verify({}, { 'x-shopify-hmac-sha256': shopifySig }, 'hush', shopifyBody), true);
+check('shopify: wrong secret', shopify.verify({}, { 'x-shopify-hmac-sha256': shopifySig }, 'hush!', shopifyBody), false);
+
+// 4. Slack (api.slack.com "Verifying requests from Slack")
+const slack = new SlackVerifier();
+const slackSecret = '8f742231b10e8888abcd99yyyzzz85a5';
+const slackBody = 'token=xyzz0WbapA4vBCDEFasx0q6G&team_id=T1DC2JH3J&team_domain=testteamnow&channel_id=G8PSS9T3V&channel_name=foobar&user_id=U2CERLKJA&user_name=roadrunner&command=%2Fwebhook-collect&text=&response_url=https%3A%2F%2Fhooks.slack.com%2Fcommands%2FT1DC2JH3J%2F397700885554%2F96rGlfmibIGlgcZRskXaIFfN&trigger_id=398738663015.47445629121.803a0bc887a14d10d2c447fce8b6703c';
+const slackHeaders = {
+  'x-slack-request-timestamp': '1531420618',
+  'x-slack-signature': 'v0=a2114d57b48eac39b9ad189dd8316235a7b4a8d21a10bd27519666489c69b503'
+};
+
+const realNow = Date.now;
+Date.now = () => 1531420618 * 1000;
+check('slack: valid signature', slack.verify({}, slackHeaders, slackSecret, slackBody), true);
+Date.now = () => (1531420618 + 600) * 1000;
+checkThrows('slack: stale timestamp', () => slack.verify({}, slackHeaders, slackSecret, slackBody), 'STALE_TIMESTAMP');
+check('slack: judged from receivedAt', slack.verify(
+  {}, slackHeaders, slackSecret, slackBody, { url: '', receivedAt: new Date(1531420618 * 1000) }
+), true);
+Date.now = realNow;
+
+// 5. Twilio (twilio.com/docs/usage/security)
+const twilio = new TwilioVerifier({ baseUrl: 'https://mycompany.com' });
+const twilioBody = 'CallSid=CA1234567890ABCDE&Caller=%2B12349013030&Digits=1234&From=%2B12349013030&To=%2B18005551212';
+const twilioHeaders = { 'x-twilio-signature': '0/KCTR6DLpKmkAf8muzZqo1nDgQ=' };
+check('twilio: valid signature', twilio.verify({}, twilioHeaders, '12345', twilioBody, { url: '/myapp.php?foo=1&bar=2' }), true);
+check('twilio: different url', twilio.verify({}, twilioHeaders, '12345', twilioBody, { url: '/myapp.php?foo=2&bar=2' }), false);
+check('twilio: url from headers', new TwilioVerifier().verify(
+  {}, { ...twilioHeaders, host: 'mycompany.com' }, '12345', twilioBody, { url: '/myapp.php?foo=1&bar=2' }
+), true);
+
+// 6. Stripe: several v1 entries while a secret is being rolled
+const stripe = new StripeVerifier();
+const stripeBody = '{"id":"evt_123"}';
+const stripeTs = Math.floor(Date.now() / 1000);
+const stripeSign = (secret: string) =>
+  crypto.createHmac('sha256', secret).update(`${stripeTs}.${stripeBody}`).digest('hex');
+const stripeHeaders = { 'stripe-signature': `t=${stripeTs},v1=${stripeSign('whsec_new')},v1=${stripeSign('whsec_old')}` };
+check('stripe: first v1 matches', stripe.verify({}, stripeHeaders, 'whsec_new', stripeBody), true);
+check('stripe: second v1 matches', stripe.verify({}, stripeHeaders, 'whsec_old', stripeBody), true);
+check('stripe: no v1 matches', stripe.verify({}, stripeHeaders, 'whsec_other', stripeBody), false);
+
+// 7. Outbound signing (Standard Webhooks vector from standardwebhooks.com / Svix docs)
+const swSecret = 'whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw';
+const swMessage = { id: 'msg_p5jXN8AQM9LWM0D4loKWxJek', timestamp: 1614265330, body: '{"test": 2432232314}' };
+const swHeaders = signDelivery([swSecret], null, swMessage);
+check('outbound: standard-webhooks vector', swHeaders['webhook-signature'] === 'v1,g0hM9SsE+OTPJTGt/tmIKtSyZlE3uFJELVlNIOLJ1OE=', true);
+check('outbound: accepted by inbound verifier', new StandardWebhooksVerifier().verify(
+  {}, swHeaders, swSecret, swMessage.body, { url: '', receivedAt: new Date(swMessage.timestamp * 1000) }
+), true);
+
+Date.now = () => swMessage.timestamp * 1000;
+const rotatedHeaders = signDelivery(['whsec_bmV3c2VjcmV0', swSecret], null, swMessage);
+check('outbound: verifyDelivery with old secret while rotating', verifyDelivery(swSecret, swMessage.body, rotatedHeaders), true);
+check('outbound: verifyDelivery tampered body', verifyDelivery(swSecret, swMessage.body + ' ', swHeaders), false);
+const hmacConfig = { format: 'hmac' as const, header: 'X-Buffer-Signature', prefix: 'sha256=', timestampHeader: 'X-Buffer-Timestamp' };
+const hmacHeaders = signDelivery(['plain-secret'], hmacConfig, swMessage);
+check('outbound: hmac format round-trip', verifyDelivery('plain-secret', Buffer.from(swMessage.body), hmacHeaders, hmacConfig), true);
+Date.now = () => (swMessage.timestamp + 600) * 1000;
+check('outbound: verifyDelivery stale timestamp', verifyDelivery(swSecret, swMessage.body, swHeaders), false);
+Date.now = realNow;
+
+// 8. Custom HMAC (Endpoint.verifierConfig)
+const hmacBody = '{"order":42}';
+const hmacSign = (payload: string, encoding: 'hex' | 'base64' = 'hex') =>
+  crypto.createHmac('sha256', 'hmac-secret').update(payload).digest(encoding);
+const customHmac = new HmacVerifier({ header: 'X-Signature', algorithm: 'sha256', encoding: 'hex', prefix: 'sha256=' });
+check('hmac: valid signature', customHmac.verify({}, { 'x-signature': `sha256=${hmacSign(hmacBody)}` }, 'hmac-secret', hmacBody), true);
+check('hmac: upper-case hex', customHmac.verify({}, { 'x-signature': `sha256=${hmacSign(hmacBody).toUpperCase()}` }, 'hmac-secret', hmacBody), true);
+check('hmac: tampered body', customHmac.verify({}, { 'x-signature': `sha256=${hmacSign(hmacBody)}` }, 'hmac-secret', hmacBody + ' '), false);
+check('hmac: missing prefix', customHmac.verify({}, { 'x-signature': hmacSign(hmacBody) }, 'hmac-secret', hmacBody), false);
+check('hmac: missing header', customHmac.verify({}, {}, 'hmac-secret', hmacBody), false);
+
+const timedHmac = new HmacVerifier({
+  header: 'X-Signature', algorithm: 'sha256', encoding: 'base64',
+  timestampHeader: 'X-Timestamp', template: '{timestamp}.{body}', tolerance: 60
+});
+const hmacTs = '1700000000';
+const timedHeaders = { 'x-signature': hmacSign(`${hmacTs}.${hmacBody}`, 'base64'), 'x-timestamp': hmacTs };
+Date.now = () => Number(hmacTs) * 1000;
+check('hmac: timestamp template', timedHmac.verify({}, timedHeaders, 'hmac-secret', hmacBody), true);
+check('hmac: timestamp not signed', timedHmac.verify({}, { ...timedHeaders, 'x-timestamp': '1700000001' }, 'hmac-secret', hmacBody), false);
+Date.now = () => (Number(hmacTs) + 120) * 1000;
+checkThrows('hmac: stale timestamp', () => timedHmac.verify({}, timedHeaders, 'hmac-secret', hmacBody), 'STALE_TIMESTAMP');
+Date.now = realNow;
+
+check('hmac: config accepted', HmacVerifier.validateConfig({ header: 'X-Signature', algorithm: 'sha256', encoding: 'hex' }) === null, true);
+check('hmac: config missing', HmacVerifier.validateConfig(null) === null, false);
+check('hmac: config not an object', HmacVerifier.validateConfig('sha256') === null, false);
+check('hmac: unknown algorithm', HmacVerifier.validateConfig({ header: 'X-Signature', algorithm: 'md5', encoding: 'hex' }) === null, false);
+check('hmac: {timestamp} without timestampHeader', HmacVerifier.validateConfig(
+  { header: 'X-Signature', algorithm: 'sha256', encoding: 'hex', template: '{timestamp}.{body}' }
+) === null, false);
+check('hmac: provider name normalized', VerifierFactory.normalizeProvider(' HMAC ') === 'hmac', true);
+check('hmac: factory ignores case', VerifierFactory.getVerifier('HMAC', { header: 'X-Signature', algorithm: 'sha256', encoding: 'hex' })
+  .verify({}, { 'x-signature': hmacSign(hmacBody) }, 'hmac-secret', hmacBody), true);
+
+// 9. Meta / WhatsApp (X-Hub-Signature-256 over the raw body)
+const meta = new MetaVerifier();
+const metaBody = '{"object":"whatsapp_business_account","entry":[]}';
+const metaSig = `sha256=${crypto.createHmac('sha256', 'app-secret').update(metaBody).digest('hex')}`;
+check('meta: valid signature', meta.verify({}, { 'x-hub-signature-256': metaSig }, 'app-secret', metaBody), true);
+check('meta: tampered body', meta.verify({}, { 'x-hub-signature-256': metaSig }, 'app-secret', metaBody.replace('[]', '[{}]')), false);
+check('meta: wrong secret', meta.verify({}, { 'x-hub-signature-256': metaSig }, 'app-secret!', metaBody), false);
+check('meta: whatsapp alias', VerifierFactory.getVerifier('whatsapp').verify({}, { 'x-hub-signature-256': metaSig }, 'app-secret', metaBody), true);
+
+// 10. Zoom (v0:{timestamp}:{body}) and its URL-validation handshake
+const zoom = new ZoomVerifier();
+const zoomBody = '{"event":"meeting.started","payload":{"object":{"id":"123"}}}';
+const zoomTs = '1700000000';
+const zoomHeaders = {
+  'x-zm-request-timestamp': zoomTs,
+  'x-zm-signature': `v0=${crypto.createHmac('sha256', 'zoom-secret').update(`v0:${zoomTs}:${zoomBody}`).digest('hex')}`
+};
+Date.now = () => Number(zoomTs) * 1000;
+check('zoom: valid signature', zoom.verify({}, zoomHeaders, 'zoom-secret', zoomBody), true);
+check('zoom: tampered body', zoom.verify({}, zoomHeaders, 'zoom-secret', zoomBody.replace('123', '124')), false);
+check('zoom: timestamp not signed', zoom.verify({}, { ...zoomHeaders, 'x-zm-request-timestamp': '1700000001' }, 'zoom-secret', zoomBody), false);
+Date.now = () => (Number(zoomTs) + 600) * 1000;
+checkThrows('zoom: stale timestamp', () => zoom.verify({}, zoomHeaders, 'zoom-secret', zoomBody), 'STALE_TIMESTAMP');
+Date.now = realNow;
+
+// Challenges are signed like any Zoom request, and only answered once that checks out
+const plainToken = 'qgg8vlvZRS6UYooatFL8Aw';
+const zoomChallengeBody = JSON.stringify({ event: 'endpoint.url_validation', payload: { plainToken } });
+const signedChallenge = (body: string, secret = 'zoom-secret') => ({
+  method: 'POST',
+  query: {},
+  payload: JSON.parse(body),
+  rawBody: body,
+  headers: {
+    'x-zm-request-timestamp': zoomTs,
+    'x-zm-signature': `v0=${crypto.createHmac('sha256', secret).update(`v0:${zoomTs}:${body}`).digest('hex')}`
+  }
+});
+const zoomChallenge = signedChallenge(zoomChallengeBody);
+const handshakes = (...secrets: string[]) =>
+  new HandshakeService({ endpointSecret: { findMany: async () => secrets.map(secret => ({ secret })) } } as any);
+
+(async () => {
+  Date.now = () => Number(zoomTs) * 1000;
+
+  check('zoom: handshake detected', HandshakeService.detect(HandshakeService.resolveType('zoom'), zoomChallenge), true);
+  check('zoom: regular event is no handshake', HandshakeService.detect('zoom', { ...zoomChallenge, payload: JSON.parse(zoomBody) }), false);
+  const answer = await handshakes('zoom-secret').respond('ep', 'zoom', null, zoomChallenge);
+  const expectedToken = crypto.createHmac('sha256', 'zoom-secret').update(plainToken).digest('hex');
+  check('zoom: handshake signs plainToken', answer.status === 200
+    && answer.body.plainToken === plainToken && answer.body.encryptedToken === expectedToken, true);
+  const rotating = await handshakes('old-secret', 'zoom-secret').respond('ep', 'zoom', null, zoomChallenge);
+  check('zoom: handshake answered with the secret that signed it', rotating.body.encryptedToken === expectedToken, true);
+  const unconfigured = await handshakes().respond('ep', 'zoom', null, zoomChallenge);
+  check('zoom: handshake without a secret', unconfigured.status === 403, true);
+
+  // An unsigned challenge must not work as a signing oracle: plainToken "v0:{ts}:{body}" would return a valid x-zm-signature
+  const forged = `v0:${zoomTs}:{"event":"meeting.deleted"}`;
+  const unsigned = { ...zoomChallenge, headers: {}, payload: { event: 'endpoint.url_validation', payload: { plainToken: forged } } };
+  const oracle = await handshakes('zoom-secret').respond('ep', 'zoom', null, unsigned);
+  check('zoom: unsigned handshake refused', oracle.status === 401 && !oracle.body.encryptedToken, true);
+  const wrongSecret = await handshakes('zoom-secret').respond('ep', 'zoom', null, signedChallenge(zoomChallengeBody, 'zoom-secret!'));
+  check('zoom: handshake signed with another secret refused', wrongSecret.status === 401, true);
+  const tamperedChallenge = { ...zoomChallenge, payload: { event: 'endpoint.url_validation', payload: { plainToken: forged } } };
+  tamperedChallenge.rawBody = JSON.stringify(tamperedChallenge.payload);
+  check('zoom: tampered handshake refused', (await handshakes('zoom-secret').respond('ep', 'zoom', null, tamperedChallenge)).status === 401, true);
+  Date.now = () => (Number(zoomTs) + 600) * 1000;
+  check('zoom: stale handshake refused', (await handshakes('zoom-secret').respond('ep', 'zoom', null, zoomChallenge)).status === 401, true);
+
+  // Slack url_verification is signed the same way (v0:{timestamp}:{body})
+  Date.now = () => Number(zoomTs) * 1000;
+  const slackChallengeBody = '{"token":"x","challenge":"3eZbrw1aBm2rZgRNFdxV2595E9CY3gmdALWMmHkvFXO7tYXAYM8P","type":"url_verification"}';
+  const slackChallenge = {
+    method: 'POST',
+    query: {},
+    payload: JSON.parse(slackChallengeBody),
+    rawBody: slackChallengeBody,
+    headers: {
+      'x-slack-request-timestamp': zoomTs,
+      'x-slack-signature': `v0=${crypto.createHmac('sha256', 'slack-secret').update(`v0:${zoomTs}:${slackChallengeBody}`).digest('hex')}`
+    }
+  };
+  const slackAnswer = await handshakes('slack-secret').respond('ep', 'slack', null, slackChallenge);
+  check('slack: signed challenge echoed', slackAnswer.status === 200 && slackAnswer.body.challenge === slackChallenge.payload.challenge, true);
+  check('slack: unsigned challenge refused', (await handshakes('slack-secret').respond('ep', 'slack', null, { ...slackChallenge, headers: {} })).status === 401, true);
+  Date.now = realNow;
+
+  console.log(failures === 0 ? '\n✅ All vectors passed' : `\n❌ ${failures} vector(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+})();